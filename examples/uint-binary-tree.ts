@@ -36,7 +36,11 @@ export class BinaryTreeUint32 {
     store?: BinaryTreeUint32['store']
   ) {
     this.comparator = comparator
-    this.store = store || new PointerSet<T, K, R>(keys, blockSize, rawKeys)
+    this.store =
+      store ||
+      new PointerSet<T, K, R>(keys, blockSize, rawKeys, {
+        valueless: true,
+      })
   }
 
   value(p: Pointer, v?: number) {
@@ -24,7 +24,8 @@ import { nullPointer, Pointer, PointerSet } from '../'
 const keys = ['next', 'prev', 'chead', 'ctail', 'parent'] as const
 const rawKeys = ['value'] as const
 
-// no value type, just uses raw uint32 values on the slab
+// no value type, just uses raw uint32 values on the slab, and tracks
+// which entries are live in a bit set rather than a values array
 type T = null
 type K = typeof keys
 type R = typeof rawKeys
@@ -34,7 +35,9 @@ export class Tree {
 
   constructor(acyclic: boolean = false, store?: PointerSet<T, K, R>) {
     this.acyclic = acyclic
-    this.store = store || new PointerSet<T, K, R>(keys, 256, rawKeys)
+    this.store =
+      store ||
+      new PointerSet<T, K, R>(keys, 256, rawKeys, { valueless: true })
   }
 
   add(value: number, parent: Pointer = nullPointer): Pointer {
@@ -26,10 +26,116 @@ export const errUnknownRawField = (f: string) =>
  */
 export const errUnknownPointerField = (f: string) =>
   new TypeError('unknown pointer field: ' + f)
+/**
+ * error raised when accessing a raw field that is not 32 bits wide
+ * with `raw8()`, `raw16()`, or `raw32()`
+ */
+export const errNotWordField = (f: string) =>
+  new TypeError('raw field is not 32 bits wide: ' + f)
+/**
+ * error raised when reading or writing a struct raw field as a single
+ * value, with `raw()` or `compareExchangeRaw()`
+ */
+export const errStructField = (f: string) =>
+  new TypeError('cannot access struct field as a single value: ' + f)
+/**
+ * error raised when writing more values to a struct raw field than it
+ * has room for
+ */
+export const errStructLength = (f: string, length: number) =>
+  new TypeError(`too many values for struct field ${f}: ${length}`)
+/**
+ * error raised when accessing a bytes field with the methods for
+ * other raw fields
+ */
+export const errBytesField = (f: string) =>
+  new TypeError('cannot access bytes field as raw data: ' + f)
+/**
+ * error raised when calling `setBytes()`, `getBytes()`, or
+ * `getString()` on a raw field that is not a bytes field
+ */
+export const errNotBytesField = (f: string) =>
+  new TypeError('not a bytes field: ' + f)
+/**
+ * error raised when adding a field with the same name as one that is
+ * already in the set
+ */
+export const errFieldExists = (f: string) =>
+  new TypeError('field already exists: ' + f)
+/**
+ * error raised when removing a field that is not in the set
+ */
+export const errUnknownField = (f: string) =>
+  new TypeError('unknown field: ' + f)
+/**
+ * error raised when merging a set with a field that does not exist in
+ * this set, or has a different type
+ */
+export const errIncompatibleField = (f: string) =>
+  new TypeError('field does not match: ' + f)
+/**
+ * error raised when `PointerSet.fromBuffer()` is given data that is not
+ * a valid PointerSet snapshot
+ */
+export const errInvalidSnapshot = (reason: string) =>
+  new TypeError('invalid PointerSet snapshot: ' + reason)
+
+/**
+ * error raised when a Pointer from a set created with
+ * `generations: true` refers to an entry that has been freed
+ */
+export const errStalePointer = (p: number) =>
+  new TypeError('stale pointer, entry has been freed: ' + p)
+
+/**
+ * error raised in a set created with `checked: true` when a pointer
+ * refers to a block that does not exist
+ */
+export const errUnknownBlock = (p: number) =>
+  new TypeError('pointer refers to a block that does not exist: ' + p)
+/**
+ * error raised in a set created with `checked: true` when a pointer
+ * refers to an entry that has never been allocated
+ */
+export const errUnallocatedPointer = (p: number) =>
+  new TypeError('pointer refers to an unallocated entry: ' + p)
+/**
+ * error raised in a set created with `checked: true` when a pointer
+ * refers to an entry that has been freed
+ */
+export const errFreedPointer = (p: number) =>
+  new TypeError('pointer refers to a freed entry: ' + p)
+/**
+ * error raised in a set created with `checked: true` when freeing
+ * an entry that has already been freed
+ */
+export const errDoubleFree = (p: number) =>
+  new TypeError('pointer has already been freed: ' + p)
+/**
+ * error raised when allocating would go over the `maxEntries` or
+ * `maxBytes` limit of a set, and no room could be made
+ */
+export const errOutOfMemory = (limit: string, max: number) =>
+  new RangeError(`out of memory, ${limit} is ${max}`)
 
 const getWordSize = (max: BlockSize): WordSize =>
   (max <= max8 ? 1 : max <= max16 ? 2 : 4) as WordSize
 
+// snapshot format identifiers, see toBuffer() and fromBuffer()
+const snapshotMagic = 'PSET'
+const snapshotVersion = 1
+const littleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+// for strings in bytes fields
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+// how Node's util.inspect() finds a custom inspect method, without
+// importing util, and the number of entries that it shows
+const inspectSymbol = Symbol.for('nodejs.util.inspect.custom')
+const inspectEntries = 10
+// round up to the next multiple of 4, so slabs stay word-aligned
+const align4 = (n: number) => (n + 3) & ~3
+
 // create a new uint array using un-initialized memory
 // this is generally unsafe!  but we initialize memory
 // on each entry allocation, so it's significantly faster
@@ -68,15 +174,458 @@ const unsafeUint8Array = (len: number): Uint8Array => {
   return new Uint8Array(buf.buffer, buf.byteOffset, len)
 }
 
+// PointerSets created with `shared: true` put all of their slabs on
+// SharedArrayBuffers, so that they can be handed to other threads.
+// These are always zero-filled, there's no unsafe alternative.
+const sharedBuffer = (byteLength: number): SharedArrayBuffer => {
+  /* c8 ignore start */
+  if (typeof SharedArrayBuffer === 'undefined') {
+    throw new TypeError('SharedArrayBuffer is not available')
+  }
+  /* c8 ignore stop */
+  return new SharedArrayBuffer(byteLength)
+}
+const uint32Slab = (len: number, shared: boolean): Uint32Array =>
+  shared ? new Uint32Array(sharedBuffer(len * 4)) : unsafeUint32Array(len)
+// one bit for each entry in a block, set if it is live
+const liveSlab = (blockSize: number, shared: boolean): Int32Array => {
+  const words = Math.ceil(blockSize / 32)
+  return shared
+    ? new Int32Array(sharedBuffer(words * 4))
+    : new Int32Array(words)
+}
+const stackSlab = (
+  max: BlockSize,
+  shared: boolean
+): Uint8Array | Uint16Array =>
+  max <= max8
+    ? shared
+      ? new Uint8Array(sharedBuffer(max))
+      : unsafeUint8Array(max)
+    : shared
+    ? new Uint16Array(sharedBuffer(max * 2))
+    : unsafeUint16Array(max)
+
+// each block keeps its bookkeeping in a small Int32Array, so that it
+// can be shared between threads along with the slabs.
+// stateLock is a spin lock used by concurrent sets,
+// stateBlockCount is the number of blocks in a concurrent set, and
+// stateAvailable is the free space in the entire set, the last two
+// only used in the root block.
+const stateNextFree = 0
+const stateFreeCount = 1
+const stateLock = 2
+const stateBlockCount = 3
+const stateAvailable = 4
+const stateSize = 5
+const stateSlab = (shared: boolean): Int32Array =>
+  shared
+    ? new Int32Array(sharedBuffer(stateSize * 4))
+    : new Int32Array(stateSize)
+
+// in sets created with `generations: true`, each slot has a generation
+// that changes when it is freed, which is kept in the bits above 2**32
+// of the Pointers handed out.  Bitwise operators only look at the low
+// 32 bits, so getBlockId() and getIndex() work as normal.
+// generations start at 1, so a plain 32-bit Pointer is never valid,
+// and wrap around before the Pointer gets past 2**53.
+const genMax = 2097151
+const genSlab = (len: number, shared: boolean): Uint32Array =>
+  uint32Slab(len, shared).fill(1)
+
+// the array types used for each type of raw field
+const rawArrays = {
+  uint32: Uint32Array,
+  int32: Int32Array,
+  uint16: Uint16Array,
+  int16: Int16Array,
+  uint8: Uint8Array,
+  int8: Int8Array,
+  float32: Float32Array,
+  float64: Float64Array,
+  bigint64: BigInt64Array,
+  biguint64: BigUint64Array,
+  // offset and length of each entry's data in the arena
+  bytes: Uint32Array,
+}
+// uint32 fields use uninitialized memory, like the ref slabs, but the
+// others are rare enough that it's not worth the trouble. bytes fields
+// must start out zeroed, so that new entries don't refer to any data
+// in the arena.
+const rawSlab = (
+  type: RawType | 'bytes',
+  len: number,
+  shared: boolean
+): RawSlab => {
+  if (type === 'uint32') {
+    return uint32Slab(len, shared)
+  }
+  const A = rawArrays[type]
+  return shared
+    ? new A(sharedBuffer(len * A.BYTES_PER_ELEMENT))
+    : new A(len)
+}
+// zero value of the right type for a raw slab
+const rawZero = (slab: RawSlab): number | bigint =>
+  slab instanceof BigInt64Array || slab instanceof BigUint64Array ? 0n : 0
+// the name, type, and width of a raw field spec, throwing if invalid
+const parseRawSpec = (
+  spec: RawFieldSpec
+): [string, RawType | 'bytes', number] => {
+  const [f, type, w]: readonly [string, RawType | 'bytes', number?] =
+    typeof spec === 'string' ? [spec, 'uint32'] : spec
+  if (!Object.prototype.hasOwnProperty.call(rawArrays, type)) {
+    throw new TypeError(`invalid type for raw field ${f}: ${type}`)
+  }
+  // bytes fields hold an offset and length
+  const width = type === 'bytes' && w === undefined ? 2 : w ?? 1
+  if (
+    !Number.isInteger(width) ||
+    width < 1 ||
+    (type === 'bytes' && w !== undefined)
+  ) {
+    throw new TypeError(`invalid width for raw field ${f}: ${width}`)
+  }
+  return [f, type, width]
+}
+
 type ArrayValues<K extends readonly string[]> = K[number]
 type RefSet<K extends readonly string[]> = {
   [k in ArrayValues<K>]?: Pointer
 }
-type RawSet<R extends readonly string[]> = {
-  [k in ArrayValues<R>]?: number
-}
 type FieldName<K> = K extends readonly string[] ? keyof RefSet<K> : never
 
+/**
+ * The types that a raw field may be declared with. Each is stored in
+ * the typed array of the same name, so for example an `int8` field
+ * only takes one byte per entry.
+ */
+export type RawType = Exclude<keyof typeof rawArrays, 'bytes'>
+/**
+ * A raw field declaration. Either a name, for a `uint32` field, a
+ * `[name, type]` tuple, a `[name, type, width]` tuple for a struct
+ * field holding `width` values of the type in each entry, or a
+ * `[name, 'bytes']` tuple for variable-length data in the arena.
+ */
+export type RawFieldSpec =
+  | string
+  | readonly [string, RawType]
+  | readonly [string, RawType, number]
+  | readonly [string, 'bytes']
+/**
+ * The JavaScript type of the values in a raw field of a given type
+ */
+export type RawValue<T extends RawType> = T extends
+  | 'bigint64'
+  | 'biguint64'
+  ? bigint
+  : number
+/**
+ * The typed array used to store a raw field of a given type
+ */
+export type RawArray<T extends RawType> = InstanceType<
+  (typeof rawArrays)[T]
+>
+/**
+ * Slab storing the data for a raw field. Any of the typed arrays in
+ * `rawArrays`, indexed with a number or bigint value.
+ */
+export interface RawSlab extends ArrayBufferView {
+  [index: number]: number | bigint
+  readonly length: number
+  readonly BYTES_PER_ELEMENT: number
+  fill(value: number | bigint, start?: number, end?: number): this
+  set(array: ArrayLike<number | bigint>, offset?: number): void
+  subarray(begin?: number, end?: number): RawSlab
+  slice(begin?: number, end?: number): RawSlab
+}
+type SpecName<S> = S extends string
+  ? S
+  : S extends readonly [infer N, ...unknown[]]
+  ? N
+  : never
+type SpecType<S> = S extends readonly [string, infer T, ...unknown[]]
+  ? T
+  : 'uint32'
+type RawKind<S> = S extends readonly [string, 'bytes']
+  ? 'bytes'
+  : S extends readonly [string, RawType, infer W]
+  ? W extends 1
+    ? 'scalar'
+    : 'struct'
+  : 'scalar'
+type RawFieldName<R extends readonly RawFieldSpec[]> = SpecName<
+  R[number]
+> &
+  string
+// if the names are not known, (eg, `string[]`), then use all the specs
+type SpecOf<R extends readonly RawFieldSpec[], F extends string> = [
+  Extract<R[number], F | readonly [F, ...unknown[]]>
+] extends [never]
+  ? R[number]
+  : Extract<R[number], F | readonly [F, ...unknown[]]>
+type RawTypeOf<
+  R extends readonly RawFieldSpec[],
+  F extends string
+> = SpecType<SpecOf<R, F>> & RawType
+type ScalarFieldName<R extends readonly RawFieldSpec[]> = {
+  [k in RawFieldName<R>]: RawKind<SpecOf<R, k>> extends 'scalar'
+    ? k
+    : never
+}[RawFieldName<R>]
+type ViewFieldName<R extends readonly RawFieldSpec[]> = {
+  [k in RawFieldName<R>]: RawKind<SpecOf<R, k>> extends 'bytes' ? never : k
+}[RawFieldName<R>]
+type BytesFieldName<R extends readonly RawFieldSpec[]> = {
+  [k in RawFieldName<R>]: 'bytes' extends RawKind<SpecOf<R, k>> ? k : never
+}[RawFieldName<R>]
+type RawSet<R extends readonly RawFieldSpec[]> = {
+  [k in RawFieldName<R>]?: 'struct' extends RawKind<SpecOf<R, k>>
+    ? ArrayLike<RawValue<RawTypeOf<R, k>>>
+    : 'bytes' extends RawKind<SpecOf<R, k>>
+    ? Uint8Array | string
+    : RawValue<RawTypeOf<R, k>>
+}
+// the spec of a raw field added with addRawField()
+type AddedRawSpec<N extends string, Y, W> = Y extends 'bytes'
+  ? readonly [N, 'bytes']
+  : readonly [N, Y, W]
+type RawInput = number | bigint | ArrayLike<number | bigint> | string
+type RawValues<R extends readonly RawFieldSpec[]> = {
+  [k in RawFieldName<R>]?: 'struct' extends RawKind<SpecOf<R, k>>
+    ? RawArray<RawTypeOf<R, k>>
+    : 'bytes' extends RawKind<SpecOf<R, k>>
+    ? Uint8Array
+    : RawValue<RawTypeOf<R, k>>
+}
+
+/**
+ * Column arrays for `allocMany()`. Item `i` of each array is used for
+ * the `i`th entry allocated, and missing items are left empty.
+ */
+export interface AllocManyColumns<
+  T extends PointerSetValueType,
+  K extends readonly string[],
+  R extends readonly RawFieldSpec[]
+> {
+  values?: ArrayLike<T>
+  refs?: { [k in ArrayValues<K>]?: ArrayLike<number> }
+  raw?: { [k in keyof RawSet<R>]?: ArrayLike<NonNullable<RawSet<R>[k]>> }
+}
+/**
+ * How `allocMany()` sets up the new entries. Either column arrays, or
+ * a function called with the position and Pointer of each entry once
+ * they have all been allocated, along with the array of all the new
+ * Pointers, which returns the entry's value.
+ */
+export type AllocManyInit<
+  T extends PointerSetValueType,
+  K extends readonly string[],
+  R extends readonly RawFieldSpec[]
+> =
+  | AllocManyColumns<T, K, R>
+  | ((
+      i: number,
+      pointer: Pointer,
+      pointers: Uint32Array | Float64Array
+    ) => T | void)
+/**
+ * A run of consecutive Pointers, from `start` up to but not including
+ * `end`, returned by `allocMany()`.
+ */
+export interface PointerRange {
+  start: Pointer
+  end: Pointer
+}
+
+/**
+ * Information about the entry at a Pointer, returned by `describe()`.
+ * The `refs` and `raws` are only included if the entry is live.
+ */
+export interface PointerDescription<
+  T extends PointerSetValueType,
+  K extends readonly string[],
+  R extends readonly RawFieldSpec[]
+> {
+  blockId: number
+  index: number
+  live: boolean
+  value: T | undefined
+  refs?: RefSet<K>
+  raws?: RawValues<R>
+}
+
+/**
+ * Counts and memory use for a block, or the whole set, returned by
+ * `stats()`. Sizes are in bytes.
+ */
+export interface BlockStats {
+  /**
+   * Number of entries in use, not counting the null pointer
+   */
+  live: number
+  /**
+   * Number of freed slots waiting to be reused
+   */
+  freeList: number
+  /**
+   * The index of the first slot that has never been used. For the
+   * whole set, the total of every block's `nextFree`.
+   */
+  nextFree: number
+  /**
+   * Size of the slabs for ref fields
+   */
+  refBytes: number
+  /**
+   * Size of the slabs for raw fields, not including the arena
+   */
+  rawBytes: number
+  /**
+   * Size of the free-list stack
+   */
+  freeListBytes: number
+  /**
+   * Estimated size of the values array, at 8 bytes for each slot,
+   * not counting the values themselves
+   */
+  valueBytes: number
+  /**
+   * Size of the state, liveness, generation, and count slabs
+   */
+  metaBytes: number
+  /**
+   * Total of all the sizes
+   */
+  bytes: number
+  /**
+   * The share of the slots below `nextFree` that are on the free
+   * list, from 0 to 1
+   */
+  fragmentation: number
+}
+/**
+ * Counts and memory use for the whole set, returned by `stats()`
+ */
+export interface PointerSetStats extends BlockStats {
+  blocks: BlockStats[]
+  /**
+   * Size of the arena for bytes fields, which is included in `bytes`
+   */
+  arenaBytes: number
+  /**
+   * Bytes in the arena that `compactArena()` would reclaim
+   */
+  arenaGarbage: number
+  /**
+   * Number of blocks that `compact()` would drop
+   */
+  reclaimableBlocks: number
+}
+
+/**
+ * Options for `toGraph()` and `toDot()`
+ */
+export interface GraphOptions<
+  T extends PointerSetValueType,
+  K extends readonly string[],
+  R extends readonly RawFieldSpec[]
+> {
+  /**
+   * Only include the entries that can be reached from these Pointers.
+   * Defaults to every live entry.
+   */
+  roots?: Pointer[]
+  /**
+   * The ref fields to follow and draw edges for. Defaults to all of
+   * them.
+   */
+  fields?: FieldName<K>[]
+  /**
+   * Make the label for an entry from its value and raw fields.
+   * Defaults to the value as a string, or the Pointer if there is
+   * no value.
+   */
+  format?: (
+    value: T | undefined,
+    raws: RawValues<R>,
+    pointer: Pointer
+  ) => string
+}
+/**
+ * An entry in the graph returned by `toGraph()`
+ */
+export interface GraphNode {
+  pointer: Pointer
+  label: string
+}
+/**
+ * A ref from one entry to another in the graph returned by
+ * `toGraph()`, in the named field.
+ */
+export interface GraphEdge {
+  from: Pointer
+  to: Pointer
+  field: string
+}
+/**
+ * The entries in a PointerSet and the refs between them, as plain
+ * data that can be serialized with `JSON.stringify()`.
+ */
+export interface PointerGraph {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+/**
+ * An entry that is live in both sets compared by `diff()`, but
+ * differs between them. Each field that differs is mapped to its
+ * `[a, b]` pair of values, as is the entry's value.
+ */
+export interface EntryDiff<
+  T extends PointerSetValueType,
+  K extends readonly string[],
+  R extends readonly RawFieldSpec[]
+> {
+  pointer: Pointer
+  refs: { [k in ArrayValues<K>]?: [Pointer, Pointer] }
+  raw: {
+    [k in keyof RawValues<R>]?: [
+      NonNullable<RawValues<R>[k]>,
+      NonNullable<RawValues<R>[k]>
+    ]
+  }
+  value?: [T | undefined, T | undefined]
+}
+/**
+ * How one PointerSet differs from another, as returned by `diff()`.
+ * The Pointers of `added` entries are in the second set, and those of
+ * `freed` entries are in the first.
+ */
+export interface PointerSetDiff<
+  T extends PointerSetValueType,
+  K extends readonly string[],
+  R extends readonly RawFieldSpec[]
+> {
+  added: Pointer[]
+  freed: Pointer[]
+  changed: EntryDiff<T, K, R>[]
+}
+/**
+ * Options for `diff()`
+ */
+export interface DiffOptions<T extends PointerSetValueType> {
+  /**
+   * Codec used to load the values of snapshots passed to `diff()`.
+   * Defaults to `nullCodec`.
+   */
+  codec?: ValueCodec<T>
+  /**
+   * Test whether two values are the same. Defaults to `===`.
+   */
+  equal?: (a: T, b: T) => boolean
+}
+
 // fixed-length UintArray types for raw8 and friends
 type NumArrayValues<K extends readonly number[]> = K[number]
 type NonNumericKeys<T> = {
@@ -111,6 +660,9 @@ type Index = number & { [T]: 'index' }
  * the index within the stack (8 if the block size is 256 or lower,
  * 16 otherwise), and the remaining bytes (3 or 2, respectively)
  * storing the blockId of the block where the pointer is allocated.
+ *
+ * In sets created with `generations: true`, the generation of the
+ * entry is stored above the low 32 bits.
  */
 export type Pointer = number & { [T]: 'pointer' }
 /**
@@ -146,13 +698,180 @@ const noNullPointer = (p: Pointer, v: any = NOVALUE) => {
  */
 export const nullPointer = 0 as Pointer
 
+/**
+ * Encoder and decoder for the values stored in a PointerSet, used
+ * when writing a snapshot with `toBuffer()` and reading it back with
+ * `PointerSet.fromBuffer()`.
+ */
+export interface ValueCodec<T extends PointerSetValueType> {
+  encode: (value: T) => Uint8Array
+  decode: (bytes: Uint8Array) => T
+}
+
+/**
+ * The default ValueCodec, for PointerSets where T is `null`.
+ * Every value is encoded as zero bytes.
+ *
+ * Also accepts `undefined`, which is what a set attached to shared
+ * memory has for entries allocated in another thread.
+ */
+export const nullCodec: ValueCodec<null> = {
+  encode: (value: null) => {
+    if (value !== null && value !== undefined) {
+      throw new TypeError('nullCodec can only encode null values')
+    }
+    return new Uint8Array(0)
+  },
+  decode: () => null,
+}
+
+/**
+ * Description of the shared memory of a single block in a PointerSet
+ * created with `shared: true`. Returned by `shareBlock()`, and passed
+ * to `attachBlock()` in another thread.
+ */
+export interface SharedBlockDescriptor {
+  blockId: number
+  state: SharedArrayBuffer
+  live: SharedArrayBuffer
+  gens?: SharedArrayBuffer
+  counts?: SharedArrayBuffer
+  freeList: SharedArrayBuffer
+  fields: SharedArrayBuffer[]
+  rawFields: SharedArrayBuffer[]
+}
+
+/**
+ * Description of a PointerSet created with `shared: true`. Returned by
+ * `share()`, and passed to `PointerSet.attach()` in another thread.
+ */
+export interface SharedPointerSetDescriptor {
+  concurrent: boolean
+  generations: boolean
+  valueless: boolean
+  blockSize: number
+  fields: string[]
+  rawFields: RawFieldSpec[]
+  counted: string[]
+  blocks: SharedBlockDescriptor[]
+}
+
+/**
+ * Options that may be passed to the PointerSet constructor
+ */
+export interface PointerSetOptions {
+  /**
+   * Put all slabs on SharedArrayBuffers, so that the set can be used
+   * from other threads. See `share()` and `PointerSet.attach()`.
+   */
+  shared?: boolean
+  /**
+   * Called with a descriptor of each new block created in a shared
+   * set, so that it can be sent to the other threads using the set,
+   * and added to their copies with `attachBlock()`.
+   */
+  onBlock?: (block: SharedBlockDescriptor) => any
+  /**
+   * Make `alloc()` and `free()` safe to call from multiple threads at
+   * once, by keeping all bookkeeping in shared memory and updating it
+   * with Atomics. Implies `shared: true`.
+   */
+  concurrent?: boolean
+  /**
+   * In a concurrent set, called when this thread needs to add a new
+   * block, but other threads have added blocks that are not yet
+   * attached to this copy of the set. `blockCount` is the number of
+   * blocks in the set. If it attaches them synchronously (for example,
+   * by reading messages with `receiveMessageOnPort()`), then the
+   * allocation is retried.
+   */
+  onMissingBlocks?: (blockCount: number) => any
+  /**
+   * Keep a generation for each slot, which changes whenever the entry
+   * in it is freed. Pointers returned by the set include the generation
+   * of the entry, and throw `errStalePointer` when used after it has
+   * been freed, even if the slot has been allocated again.
+   *
+   * This only protects pointers held outside the set. Refs stored in
+   * fields do not keep a generation, so a ref to an entry that was
+   * freed resolves to whatever entry is in that slot now.
+   */
+  generations?: boolean
+  /**
+   * Throw an error when reading or writing through a pointer that
+   * does not refer to a live entry, or freeing one twice. Useful for
+   * catching bugs in tests, but makes every access slower.
+   */
+  checked?: boolean
+  /**
+   * Do not store a value for each entry. Liveness is tracked in a bit
+   * set instead, so every part of the set is kept in typed arrays.
+   * Values passed to `alloc()` are ignored, and `value()` always
+   * returns `undefined`.
+   */
+  valueless?: boolean
+  /**
+   * Names of pointer fields that count references. Each entry has a
+   * count of the refs to it in these fields, and is freed when the
+   * count drops to zero. Not allowed on concurrent sets.
+   */
+  counted?: readonly string[]
+  /**
+   * The most entries that the set may hold, not counting the null
+   * pointer. Not allowed on concurrent sets.
+   */
+  maxEntries?: number
+  /**
+   * The most memory that the slabs of the set's blocks may use, in
+   * bytes. Checked when a new block is needed, so the limit is
+   * effectively a number of blocks. Not allowed on concurrent sets.
+   */
+  maxBytes?: number
+  /**
+   * Called when allocating would go over `maxEntries` or `maxBytes`.
+   * `needed` is the number of entries being allocated. If it frees
+   * enough entries, the allocation goes ahead.
+   */
+  onPressure?: (needed: number) => any
+  /**
+   * Called when allocating would go over `maxEntries` or `maxBytes`,
+   * after `onPressure`, to pick an entry to free. Called until there
+   * is room, or it does not return a live entry. If there is still
+   * not enough room, `errOutOfMemory` is thrown.
+   */
+  evict?: () => Pointer | undefined | void
+}
+
+// header stored at the start of a snapshot, after the magic bytes,
+// version, and header length.
+interface SnapshotHeader {
+  littleEndian: boolean
+  blockSize: number
+  wordSize: number
+  fields: string[]
+  rawFields: RawFieldSpec[]
+  generations?: boolean
+  valueless?: boolean
+  counted?: string[]
+  blocks: { nextFree: number; freeCount: number }[]
+  // bytes of data in the arena, written after the blocks
+  arena?: { length: number; garbage: number }
+}
+
 // the internal stack of free items
+// the length is stored in the block's state array
 class Stack {
   data: Uint8Array | Uint16Array
-  length: number
-  constructor(max: BlockSize) {
-    this.data = (max <= max8 ? unsafeUint8Array : unsafeUint16Array)(max)
-    this.length = 0
+  state: Int32Array
+  constructor(data: Uint8Array | Uint16Array, state: Int32Array) {
+    this.data = data
+    this.state = state
+  }
+  get length(): number {
+    return this.state[stateFreeCount]
+  }
+  set length(n: number) {
+    this.state[stateFreeCount] = n
   }
   push(n: Index) {
     this.data[this.length++] = n
@@ -162,13 +881,39 @@ class Stack {
   }
 }
 
+// growable storage for the data in bytes fields, shared by every block
+// in the set. Data is appended to the end, and freed data is only
+// counted as garbage until the arena is compacted.
+class Arena {
+  data: Uint8Array
+  length: number = 0
+  garbage: number = 0
+  constructor(size: number = 1024) {
+    this.data = new Uint8Array(size)
+  }
+  alloc(n: number): number {
+    const offset = this.length
+    if (offset + n > this.data.length) {
+      let size = this.data.length * 2
+      while (size < offset + n) {
+        size *= 2
+      }
+      const data = new Uint8Array(size)
+      data.set(this.data.subarray(0, offset))
+      this.data = data
+    }
+    this.length += n
+    return offset
+  }
+}
+
 /**
  * Abstract base class of PointerSet and PointerSetBlock
  */
 abstract class PointerSetBase<
   T extends PointerSetValueType,
   K extends readonly string[],
-  R extends readonly string[] = []
+  R extends readonly RawFieldSpec[] = []
 > {
   /**
    * Stack of blocks in the set
@@ -179,14 +924,78 @@ abstract class PointerSetBase<
    */
   abstract blocksAvail: Set<PointerSetBlock<T, K, R>>
   /**
-   * Array of values, or undefined if the pointer is freed
+   * Array of values, or undefined if the pointer is freed. Always
+   * empty if the set is `valueless`.
    */
   abstract values: (T | undefined)[]
   /**
-   * The next index that is free for use.  Note that if there
-   * are any indexes in freeList, those are used first.
+   * Int32Array holding the nextFree index and free list length
+   */
+  abstract state: Int32Array
+  /**
+   * Bit set of live entries, only used when the set is shared,
+   * because the `values` array cannot be shared between threads.
    */
-  abstract nextFree: Index
+  abstract live?: Int32Array
+  /**
+   * True if the slabs are allocated on SharedArrayBuffers
+   */
+  abstract shared: boolean
+  /**
+   * True if alloc and free are safe to call from multiple threads
+   */
+  abstract concurrent: boolean
+  /**
+   * True if Pointers include the generation of the entry
+   */
+  abstract generations: boolean
+  /**
+   * The current generation of each slot, if `generations` is set
+   */
+  abstract gens?: Uint32Array
+  /**
+   * True if every access is checked for a live entry
+   */
+  abstract checked: boolean
+  /**
+   * True if no values are stored, and liveness is only tracked in the
+   * `live` bit set
+   */
+  abstract valueless: boolean
+  /**
+   * For each field, true if refs in it are counted
+   */
+  abstract countedFields: boolean[]
+  /**
+   * The reference count of each entry, if there are counted fields
+   */
+  abstract counts?: Uint32Array
+  /**
+   * Called with each new block created in a shared set
+   */
+  onBlock?: (block: SharedBlockDescriptor) => any
+  /**
+   * Called when a concurrent set can't grow until it attaches
+   * blocks created in other threads
+   */
+  onMissingBlocks?: (blockCount: number) => any
+  /**
+   * Limits on the size of the set, and how to make room when they
+   * are reached. Only set on the root block.
+   */
+  maxEntries?: number
+  maxBytes?: number
+  onPressure?: (needed: number) => any
+  evict?: () => Pointer | undefined | void
+  /**
+   * Blocks passed to `attachBlock()` before the blocks ahead of them
+   */
+  pendingBlocks?: Map<number, SharedBlockDescriptor>
+  /**
+   * Generations of blocks that have been dropped, by blockId, used
+   * again if a block with that id is created. Only set on the root.
+   */
+  droppedGens?: Map<number, Uint32Array>
   /**
    * The numeric idenfier for this block in the set
    */
@@ -199,13 +1008,27 @@ abstract class PointerSetBase<
   /**
    * array of slabs to store raw uint32 data, one for each field in R
    */
-  abstract rawFields: Uint32Array[]
+  abstract rawFields: RawSlab[]
+  /**
+   * The type of each raw field
+   */
+  abstract rawTypes: (RawType | 'bytes')[]
+  /**
+   * The number of values in each entry of each raw field. 1 for all
+   * but struct fields.
+   */
+  abstract rawWidths: number[]
+  /**
+   * Storage for the data in bytes fields, shared by all blocks in the
+   * set. Undefined if there are no bytes fields.
+   */
+  abstract arena?: Arena
   /**
    * Mapping of field and rawField names to FieldId values.
    * Raw fields have a negative value, which is the bitwise-not
    * of the index within rawFields
    */
-  abstract names: { [k in FieldName<K> | FieldName<R>]: FieldId }
+  abstract names: { [k in FieldName<K> | RawFieldName<R>]: FieldId }
   /**
    * 1 for blockSize <= 256, 2 otherwise
    */
@@ -252,6 +1075,191 @@ abstract class PointerSetBase<
    */
   abstract freeList: Stack
 
+  /**
+   * The next index that is free for use.  Note that if there
+   * are any indexes in freeList, those are used first.
+   */
+  get nextFree(): Index {
+    return this.state[stateNextFree] as Index
+  }
+  set nextFree(n: Index) {
+    this.state[stateNextFree] = n
+  }
+
+  /**
+   * For internal use: true if the index is allocated in this block
+   */
+  isLive(index: Index): boolean {
+    return this.live
+      ? (this.live[index >> 5] & (1 << (index & 31))) !== 0
+      : this.values[index] !== undefined
+  }
+  /**
+   * For internal use: mark an index as allocated or freed in the
+   * live bit set, if there is one.
+   */
+  setLive(index: Index, live: boolean): void {
+    if (this.live) {
+      if (live) {
+        Atomics.or(this.live, index >> 5, 1 << (index & 31))
+      } else {
+        Atomics.and(this.live, index >> 5, ~(1 << (index & 31)))
+      }
+    }
+  }
+
+  /**
+   * For internal use: in a checked set, throw if a Pointer does not
+   * refer to a live entry.
+   */
+  checkPointer(pointer: Pointer, onFreed = errFreedPointer): void {
+    const block = this.blocks[this.getBlockId(pointer)]
+    if (!block) {
+      throw errUnknownBlock(pointer)
+    }
+    const index = this.getIndex(pointer)
+    if (index >= block.nextFree) {
+      throw errUnallocatedPointer(pointer)
+    }
+    if (!block.isLive(index)) {
+      throw onFreed(pointer)
+    }
+  }
+
+  /**
+   * For internal use: true if the pointer refers to a live entry, and
+   * to its current generation in sets with `generations: true`.
+   */
+  isAllocated(pointer: Pointer): boolean {
+    const block = this.blocks[this.getBlockId(pointer)]
+    const index = this.getIndex(pointer)
+    return (
+      !!block &&
+      index < block.nextFree &&
+      block.isLive(index) &&
+      (!this.gens ||
+        (block.gens as Uint32Array)[index] === Math.floor(pointer / max32))
+    )
+  }
+
+  /**
+   * For internal use: throw if the generation in a Pointer does not
+   * match the current generation of its slot.
+   */
+  checkGen(pointer: Pointer): void {
+    const block = this.blocks[this.getBlockId(pointer)]
+    const gen = Math.floor(pointer / max32)
+    if (
+      !block ||
+      (block.gens as Uint32Array)[this.getIndex(pointer)] !== gen
+    ) {
+      throw errStalePointer(pointer)
+    }
+  }
+  /**
+   * For internal use: add the current generation of its slot to a
+   * Pointer read from a field slab. The slab does not keep the
+   * generation the ref was stored with, so a replaced entry is not
+   * detected here.
+   */
+  tagGen(pointer: Pointer): Pointer {
+    const block = this.blocks[this.getBlockId(pointer)]
+    return pointer && block
+      ? ((pointer +
+          (block.gens as Uint32Array)[this.getIndex(pointer)] *
+            max32) as Pointer)
+      : pointer
+  }
+  /**
+   * For internal use: move a slot on to its next generation, so that
+   * Pointers to the entry that was in it are no longer valid.
+   */
+  nextGen(index: Index): void {
+    const gens = this.gens as Uint32Array
+    gens[index] = gens[index] >= genMax ? 1 : gens[index] + 1
+  }
+  /**
+   * For internal use: keep the generations of a block that is being
+   * dropped, so that Pointers into it are still stale if a block with
+   * the same id is created again.
+   */
+  keepGens(blockId: number, gens?: Uint32Array): void {
+    if (!gens) {
+      return
+    }
+    const root = this.blocks[0]
+    if (!root.droppedGens) {
+      root.droppedGens = new Map()
+    }
+    root.droppedGens.set(blockId, gens)
+  }
+
+  /**
+   * For internal use: add one to the reference count of an entry
+   */
+  addRef(pointer: Pointer): void {
+    const block = this.blocks[this.getBlockId(pointer)]
+    const index = this.getIndex(pointer)
+    if (block && block.isLive(index)) {
+      ;(block.counts as Uint32Array)[index]++
+    }
+  }
+  /**
+   * For internal use: remove the refs in the counted fields of an
+   * entry that is being freed, and add them to the pending list.
+   */
+  takeRefs(index: Index, pending: Pointer[]): void {
+    for (let f = 0; f < this.fields.length; f++) {
+      if (this.countedFields[f]) {
+        const p = this.fields[f][index] as Pointer
+        if (p !== nullPointer) {
+          pending.push(p)
+        }
+        this.fields[f][index] = 0
+      }
+    }
+  }
+  /**
+   * For internal use: subtract one from the reference count of each
+   * pending entry, and free the ones that reach zero, releasing
+   * their refs in turn. This is a loop rather than recursion, so that
+   * long chains of entries do not overflow the stack.
+   */
+  releaseRefs(pending: Pointer[]): void {
+    for (let p = pending.pop(); p !== undefined; p = pending.pop()) {
+      const blockId = this.getBlockId(p)
+      const block = this.blocks[blockId]
+      const index = this.getIndex(p)
+      if (!block || !block.isLive(index)) {
+        continue
+      }
+      const counts = block.counts as Uint32Array
+      if (counts[index] > 1) {
+        counts[index]--
+        continue
+      }
+      counts[index] = 0
+      block.takeRefs(index, pending)
+      const pointer = this.getPointer(blockId, index)
+      block.free(this.gens ? this.tagGen(pointer) : pointer)
+    }
+  }
+
+  /**
+   * For internal use: take the spin lock on a concurrent block.
+   * Critical sections are only a few operations long, so this
+   * never waits for long.
+   */
+  lock(): void {
+    while (Atomics.compareExchange(this.state, stateLock, 0, 1) !== 0) {}
+  }
+  /**
+   * For internal use: release the spin lock on a concurrent block.
+   */
+  unlock(): void {
+    Atomics.store(this.state, stateLock, 0)
+  }
+
   /**
    * For internal use: get a BlockId from a Pointer
    */
@@ -285,6 +1293,12 @@ abstract class PointerSetBase<
    * associated `rawFields` slab.
    */
   alloc(value: T, refs?: RefSet<K>, raw?: RawSet<R>): Pointer {
+    if (this.concurrent) {
+      return this.allocConcurrent(value, refs, raw)
+    }
+    if (this.maxEntries !== undefined || this.maxBytes !== undefined) {
+      this.makeRoom(1)
+    }
     // put it in the most recently freed spot, or the next unwritten spot
     // else, try to put it in the first available block
     if (this.nextFree < this.blockSize || this.freeList.length) {
@@ -294,56 +1308,376 @@ abstract class PointerSetBase<
       if (!this.freeList.length && this.nextFree >= this.blockSize) {
         this.blocksAvail.delete(this)
       }
+      return this.initEntry(index, value, refs, raw)
+    }
+
+    // pick first block with empty space, if any.
+    // if the set is shared, this block may have been filled up by
+    // another thread, so make sure it isn't picked again.
+    this.blocksAvail.delete(this)
+    for (const b of this.blocksAvail) {
+      return b.alloc(value, refs, raw)
+    }
+
+    // have to make a new block
+    return this.newBlock().alloc(value, refs, raw)
+  }
+
+  /**
+   * For internal use: alloc() for concurrent sets, where the index is
+   * claimed while holding the block's lock.
+   */
+  allocConcurrent(value: T, refs?: RefSet<K>, raw?: RawSet<R>): Pointer {
+    // try this block first, then the ones we think have space,
+    // then all of them, since other threads may have freed entries.
+    for (let known = -1; known < this.blocks.length; ) {
+      known = this.blocks.length
+      let index = this.claimIndex()
+      if (index !== undefined) {
+        return this.initEntry(index, value, refs, raw)
+      }
+      this.blocksAvail.delete(this)
+      for (const b of this.blocksAvail) {
+        index = b.claimIndex()
+        if (index !== undefined) {
+          return b.initEntry(index, value, refs, raw)
+        }
+        this.blocksAvail.delete(b)
+      }
+      for (const b of this.blocks) {
+        index = b.claimIndex()
+        if (index !== undefined) {
+          this.blocksAvail.add(b)
+          return b.initEntry(index, value, refs, raw)
+        }
+      }
+
+      // have to make a new block, if we know about all of them
+      const block = this.growConcurrent()
+      if (block) {
+        index = block.claimIndex() as Index
+        return block.initEntry(index, value, refs, raw)
+      }
+      const { onMissingBlocks, state } = this.blocks[0]
+      if (onMissingBlocks) {
+        onMissingBlocks(Atomics.load(state, stateBlockCount))
+      }
+    }
+    throw new Error(
+      'cannot grow concurrent set until blocks created by other threads ' +
+        'are attached'
+    )
+  }
+
+  /**
+   * For internal use: add a new block to a concurrent set, or return
+   * undefined if other threads have added blocks that are not yet
+   * attached to this copy of the set.
+   */
+  growConcurrent(): PointerSetBlock<T, K, R> | undefined {
+    const n = this.blocks.length
+    const { state } = this.blocks[0]
+    return Atomics.compareExchange(state, stateBlockCount, n, n + 1) === n
+      ? this.newBlock()
+      : undefined
+  }
+
+  /**
+   * For internal use: take the next free index in a concurrent block,
+   * or undefined if the block is full.
+   */
+  claimIndex(): Index | undefined {
+    this.lock()
+    const index = this.freeList.length
+      ? this.freeList.pop()
+      : this.nextFree < this.blockSize
+      ? (this.nextFree++ as Index)
+      : undefined
+    this.unlock()
+    return index
+  }
+
+  /**
+   * For internal use: update the count of free space in the whole set
+   */
+  addAvailable(n: number): void {
+    const { state } = this.blocks[0]
+    if (this.concurrent) {
+      Atomics.add(state, stateAvailable, n)
+    } else {
+      state[stateAvailable] += n
+    }
+  }
+
+  /**
+   * For internal use: set up a newly allocated entry
+   */
+  initEntry(
+    index: Index,
+    value: T,
+    refs?: RefSet<K>,
+    raw?: RawSet<R>
+  ): Pointer {
+    if (!this.valueless) {
       this.values[index] = value
-      const pointer = this.getPointer(this.blockId, index)
+    }
+    this.setLive(index, true)
+    this.addAvailable(-1)
+    const pointer = this.getPointer(this.blockId, index)
 
-      // new allocation, set all refs and raws to zero unless specified
-      const writes: Pointer[] = this.fields.map(() => nullPointer)
-      if (refs) {
-        for (const [k, p] of Object.entries(refs)) {
-          const fieldName = k as FieldName<K>
-          const fieldId = this.names[fieldName]
-          if (fieldId === undefined) {
-            throw errUnknownPointerField(fieldName)
-          }
-          if (fieldId < 0) {
-            throw errRawAsPointer(k)
-          }
-          writes[fieldId] = p as Pointer
+    // new allocation, set all refs and raws to zero unless specified
+    const writes: Pointer[] = this.fields.map(() => nullPointer)
+    if (refs) {
+      for (const [k, p] of Object.entries(refs)) {
+        const fieldName = k as FieldName<K>
+        const fieldId = this.names[fieldName]
+        if (fieldId === undefined) {
+          throw errUnknownPointerField(fieldName)
         }
+        if (fieldId < 0) {
+          throw errRawAsPointer(k)
+        }
+        if (this.gens && p) {
+          this.checkGen(p as Pointer)
+        }
+        writes[fieldId] = p as Pointer
       }
+    }
+    for (let i = 0; i < writes.length; i++) {
+      this.fields[i][index] = writes[i]
+    }
+    if (this.counts) {
+      this.counts[index] = 0
       for (let i = 0; i < writes.length; i++) {
-        this.fields[i][index] = writes[i]
+        if (this.countedFields[i] && writes[i]) {
+          this.addRef(writes[i])
+        }
+      }
+    }
+
+    const rawWrites: [string, RawInput | undefined][] = this.rawFields.map(
+      () => ['', undefined]
+    )
+    if (raw) {
+      for (const [k, p] of Object.entries(raw)) {
+        const fieldName = k as RawFieldName<R>
+        const fieldId = this.names[fieldName]
+        if (fieldId === undefined) {
+          throw errUnknownRawField(k)
+        }
+        if (fieldId >= 0) {
+          throw errPointerAsRaw(k)
+        }
+        rawWrites[~fieldId] = [k, p as RawInput]
+      }
+    }
+    // set all to zero, or whatever they were defined in the args
+    for (let i = 0; i < rawWrites.length; i++) {
+      const [f, val] = rawWrites[i]
+      this.writeRaw(f, i, index, val)
+    }
+    return this.gens ? this.tagGen(pointer) : pointer
+  }
+
+  /**
+   * Allocate `count` entries at once, filling the free space in the
+   * existing blocks before creating new ones. This skips most of the
+   * per-entry work that `alloc()` does, so it is much faster for
+   * loading a lot of data.
+   *
+   * If `init` is a function, it is called with the position and
+   * Pointer of each new entry, and the array of all the new Pointers,
+   * after they are all allocated, and returns the value for the entry.
+   * Otherwise, it is an object of column arrays with the `values`,
+   * `refs`, and `raw` data for each position. Entries that are not
+   * given a value are set to `null`.
+   *
+   * Throws a `RangeError` if `count` is not a non-negative integer.
+   *
+   * Returns a `PointerRange` if the new Pointers are consecutive, or
+   * else an array of them in order. This is a `Float64Array` in sets
+   * created with `generations: true`, since the generation does not
+   * fit in 32 bits, and a `Uint32Array` otherwise.
+   */
+  allocMany(
+    count: number,
+    init?: AllocManyInit<T, K, R>
+  ): PointerRange | Uint32Array | Float64Array {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new RangeError('invalid count: ' + count)
+    }
+    // look up the columns first, so that bad names allocate nothing
+    const refCols: [FieldId, ArrayLike<Pointer>][] = []
+    const rawCols: [string, number, ArrayLike<RawInput>][] = []
+    const columns = typeof init === 'object' ? init : undefined
+    for (const [k, col] of Object.entries(columns?.refs || {})) {
+      const fieldId = this.names[k as FieldName<K>]
+      if (fieldId === undefined) {
+        throw errUnknownPointerField(k)
       }
+      if (fieldId < 0) {
+        throw errRawAsPointer(k)
+      }
+      refCols.push([fieldId, col as ArrayLike<Pointer>])
+    }
+    for (const [k, col] of Object.entries(columns?.raw || {})) {
+      const fieldId = this.names[k as RawFieldName<R>]
+      if (fieldId === undefined) {
+        throw errUnknownRawField(k)
+      }
+      if (fieldId >= 0) {
+        throw errPointerAsRaw(k)
+      }
+      rawCols.push([k, ~fieldId, col as ArrayLike<RawInput>])
+    }
+
+    if (this.maxEntries !== undefined || this.maxBytes !== undefined) {
+      this.makeRoom(count)
+    }
+    const out = this.gens
+      ? new Float64Array(count)
+      : new Uint32Array(count)
+    let n = 0
+    const blocks = this.concurrent
+      ? [this, ...this.blocks]
+      : [this, ...this.blocksAvail]
+    for (let b = 0; b < blocks.length && n < count; b++) {
+      n = blocks[b].fillBlock(out, n)
+    }
+    while (n < count) {
+      n = this.growBlock().fillBlock(out, n)
+    }
 
-      const rawWrites = this.rawFields.map(() => 0)
-      if (raw) {
-        for (const [k, p] of Object.entries(raw)) {
-          const fieldName = k as FieldName<R>
-          const fieldId = this.names[fieldName]
-          if (fieldId === undefined) {
-            throw errUnknownRawField(k)
+    if (columns) {
+      for (let i = 0; i < count; i++) {
+        const block = this.blocks[this.getBlockId(out[i] as Pointer)]
+        const index = this.getIndex(out[i] as Pointer)
+        const value = columns.values?.[i]
+        if (value !== undefined && !this.valueless) {
+          block.values[index] = value
+        }
+        for (const [fieldId, col] of refCols) {
+          const p = col[i]
+          if (p) {
+            if (this.gens) {
+              this.checkGen(p)
+            }
+            block.fields[fieldId][index] = p
+            if (block.counts && this.countedFields[fieldId]) {
+              this.addRef(p)
+            }
           }
-          if (fieldId >= 0) {
-            throw errPointerAsRaw(k)
+        }
+        for (const [f, rawId, col] of rawCols) {
+          if (col[i] !== undefined) {
+            block.writeRaw(f, rawId, index, col[i])
           }
-          rawWrites[~fieldId] = p as number
         }
       }
-      // set all to zero, or whatever they were defined in the args
-      for (let i = 0; i < rawWrites.length; i++) {
-        this.rawFields[i][index] = rawWrites[i]
+    } else if (init) {
+      const fn = init as Exclude<typeof init, AllocManyColumns<T, K, R>>
+      for (let i = 0; i < count; i++) {
+        const value = fn(i, out[i] as Pointer, out)
+        if (value !== undefined && !this.valueless) {
+          const index = this.getIndex(out[i] as Pointer)
+          this.blocks[this.getBlockId(out[i] as Pointer)].values[index] =
+            value
+        }
       }
-      return pointer
     }
 
-    // pick first block with empty space, if any
-    for (const b of this.blocksAvail) {
-      return b.alloc(value, refs, raw)
+    if (!this.gens && count) {
+      let i = 1
+      while (i < count && out[i] === out[i - 1] + 1) {
+        i++
+      }
+      if (i === count) {
+        return {
+          start: out[0] as Pointer,
+          end: (out[i - 1] + 1) as Pointer,
+        }
+      }
     }
+    return out
+  }
 
-    // have to make a new block
-    return new PointerSetBlock<T, K, R>(
+  /**
+   * Create a `PointerScope`, which keeps track of the entries
+   * allocated through it, so that they can all be freed together
+   * with `scope.dispose()`.
+   */
+  scope(): PointerScope<T, K, R> {
+    return new PointerScope<T, K, R>(this as PointerSetBase<T, K, R>)
+  }
+
+  /**
+   * For internal use: allocate empty entries in this block for the
+   * positions in `out` from `n`, until either is full. Returns the
+   * next position to fill.
+   */
+  fillBlock(out: Uint32Array | Float64Array, n: number): number {
+    const start = n
+    if (this.concurrent) {
+      this.lock()
+    }
+    while (n < out.length && this.freeList.length) {
+      out[n++] = this.freeList.pop()
+    }
+    while (n < out.length && this.nextFree < this.blockSize) {
+      out[n++] = this.nextFree++
+    }
+    if (this.concurrent) {
+      this.unlock()
+    }
+    if (!this.freeList.length && this.nextFree >= this.blockSize) {
+      this.blocksAvail.delete(this)
+    }
+    this.addAvailable(start - n)
+    for (let i = start; i < n; i++) {
+      const index = out[i] as Index
+      if (!this.valueless) {
+        this.values[index] = null as T
+      }
+      this.setLive(index, true)
+      for (const slab of this.fields) {
+        slab[index] = 0
+      }
+      if (this.counts) {
+        this.counts[index] = 0
+      }
+      for (let r = 0; r < this.rawFields.length; r++) {
+        // bytes fields are already empty, since the entry was not live
+        const w = this.rawWidths[r]
+        const slab = this.rawFields[r]
+        slab.fill(rawZero(slab), index * w, index * w + w)
+      }
+      const pointer = this.getPointer(this.blockId, index)
+      out[i] = this.gens ? this.tagGen(pointer) : pointer
+    }
+    return n
+  }
+
+  /**
+   * For internal use: add a new block to the end of the set, or throw
+   * if a concurrent set cannot grow until blocks created by other
+   * threads are attached.
+   */
+  growBlock(): PointerSetBlock<T, K, R> {
+    const block = this.concurrent ? this.growConcurrent() : this.newBlock()
+    if (!block) {
+      throw new Error(
+        'cannot grow concurrent set until blocks created by other ' +
+          'threads are attached'
+      )
+    }
+    return block
+  }
+
+  /**
+   * For internal use: add a new empty block to the end of the set
+   */
+  newBlock(): PointerSetBlock<T, K, R> {
+    const block = new PointerSetBlock<T, K, R>(
       this.blocks,
       this.blocksAvail,
       this.names,
@@ -352,7 +1686,12 @@ abstract class PointerSetBase<
       this.mask,
       this.blockIdMask,
       this.blockSize
-    ).alloc(value, refs, raw)
+    )
+    const { onBlock } = this.blocks[0]
+    if (onBlock) {
+      onBlock(block.shareBlock())
+    }
+    return block
   }
 
   /**
@@ -369,16 +1708,39 @@ abstract class PointerSetBase<
     if (pointer === nullPointer) {
       throw new TypeError('cannot free null pointer')
     }
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
+    if (this.checked) {
+      this.checkPointer(pointer, errDoubleFree)
+    }
     const blockId = this.getBlockId(pointer)
     if (blockId !== this.blockId) {
       return this.blocks[blockId].free(pointer)
     }
     const index = this.getIndex(pointer)
 
+    if (this.concurrent) {
+      this.lock()
+    }
     // if we aren't storing anything for this index, nothing to do
-    if (this.values[index] === undefined) {
+    if (!this.isLive(index)) {
+      if (this.concurrent) {
+        this.unlock()
+      }
       return
     }
+    this.setLive(index, false)
+    if (this.gens) {
+      this.nextGen(index)
+    }
+    if (this.arena) {
+      this.releaseBytes(index)
+    }
+    const pending: Pointer[] = []
+    if (this.counts) {
+      this.takeRefs(index, pending)
+    }
 
     // if pushing to freelist will bump into nextFree,
     // then just free all at once.
@@ -386,19 +1748,32 @@ abstract class PointerSetBase<
       this.freeList.length = 0
       this.nextFree = this.firstNextFree as Index
       this.values.length = 0
-      if (this.blockId === 0) {
+      if (this.blockId === 0 && !this.valueless) {
         this.values.push(undefined)
       }
     } else if (index === this.nextFree - 1) {
       // freeing the last item in the list, just pop off like a stack
       this.nextFree--
-      this.values.pop()
+      // in a shared set, this thread's values may not reach this far,
+      // but anything past the index is free, so drop it.
+      if (this.values.length > index) {
+        this.values.length = index
+      }
     } else {
       // mark it as free, write undefined to value
       this.freeList.push(index)
-      this.values[index] = undefined
+      if (!this.valueless) {
+        this.values[index] = undefined
+      }
     }
+    if (this.concurrent) {
+      this.unlock()
+    }
+    this.addAvailable(1)
     this.blocksAvail.add(this)
+    if (pending.length) {
+      this.releaseRefs(pending)
+    }
   }
 
   /**
@@ -412,35 +1787,70 @@ abstract class PointerSetBase<
     if (pointer === nullPointer) {
       throw new TypeError('cannot erase null pointer')
     }
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
+    if (this.checked) {
+      this.checkPointer(pointer, errDoubleFree)
+    }
     const blockId = this.getBlockId(pointer)
     if (blockId !== this.blockId) {
       return this.blocks[blockId].erase(pointer)
     }
     const index = this.getIndex(pointer)
     // if we aren't storing anything for this index, nothing to do
-    if (this.values[index] === undefined) {
+    if (!this.isLive(index)) {
       return
     }
-    this.free(pointer)
+    const pending: Pointer[] = []
+    if (this.counts) {
+      this.takeRefs(index, pending)
+    }
+    // zero out before freeing, so that in a concurrent set, another
+    // thread can't allocate it in the meantime
     for (const field of this.fields) {
       field[index] = 0
     }
-    for (const rawField of this.rawFields) {
-      rawField[index] = 0
+    for (let i = 0; i < this.rawFields.length; i++) {
+      this.writeRaw('', i, index)
+    }
+    this.free(pointer)
+    if (pending.length) {
+      this.releaseRefs(pending)
     }
   }
 
   /**
    * Erase *all* data in the slab.
+   *
+   * Reference counts are not updated for the refs that are erased.
    */
   wipeBlock(): void {
+    this.addAvailable(this.entryCount(this.blockId) - this.firstNextFree)
+    if (this.arena) {
+      for (let i = this.firstNextFree; i < this.nextFree; i++) {
+        if (this.isLive(i as Index)) {
+          this.releaseBytes(i as Index)
+        }
+      }
+    }
     for (const slab of this.fields) {
       slab.fill(0)
     }
     for (const slab of this.rawFields) {
-      slab.fill(0)
+      slab.fill(rawZero(slab))
     }
-    if (this.blockId === 0) {
+    if (this.gens) {
+      for (let i = this.firstNextFree; i < this.nextFree; i++) {
+        if (this.isLive(i as Index)) {
+          this.nextGen(i as Index)
+        }
+      }
+    }
+    if (this.live) {
+      this.live.fill(0)
+    }
+    if (this.blockId === 0 && !this.valueless) {
       this.values = [undefined]
     } else {
       this.values.length = 0
@@ -455,13 +1865,19 @@ abstract class PointerSetBase<
    */
   refAll(pointer: Pointer, refs?: RefSet<K>): RefSet<K> {
     noNullPointer(pointer, refs)
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
     const blockId = this.getBlockId(pointer)
     if (blockId !== this.blockId) {
       return this.blocks[blockId].refAll(pointer, refs)
     }
 
     const index = this.getIndex(pointer)
-    if (this.values[index] === undefined) {
+    if (!this.isLive(index)) {
       // not a thing in this store
       if (refs) {
         return refs
@@ -491,8 +1907,10 @@ abstract class PointerSetBase<
         if (fieldId < 0) {
           throw errRawAsPointer(f)
         }
-        const slab = this.fields[this.names[f]]
-        slab[index] = pointer
+        if (this.gens && pointer) {
+          this.checkGen(pointer)
+        }
+        this.writeRef(fieldId, this.fields[fieldId], index, pointer)
       }
       return refs
     } else {
@@ -504,46 +1922,67 @@ abstract class PointerSetBase<
         if (id < 0) {
           continue
         }
-        refs[f] = this.fields[id][index] as Pointer
+        const p = this.fields[id][index] as Pointer
+        refs[f] = this.gens ? this.tagGen(p) : p
       }
       return refs
     }
   }
 
   /**
-   * get all raw values, or set zero or more in an object
+   * get all raw values. Struct fields are returned as views, so
+   * editing them will update the values in the set.
+   */
+  rawAll(pointer: Pointer): RawValues<R>
+  /**
+   * set zero or more raw values in an object
    */
-  rawAll(pointer: Pointer, raws?: RawSet<R>): RawSet<R> {
+  rawAll(pointer: Pointer, raws: RawSet<R>): RawSet<R>
+  rawAll(pointer: Pointer, raws?: RawSet<R>): RawSet<R> | RawValues<R> {
     noNullPointer(pointer, raws)
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
     const blockId = this.getBlockId(pointer)
     if (blockId !== this.blockId) {
-      return this.blocks[blockId].rawAll(pointer, raws)
+      const block = this.blocks[blockId]
+      return raws ? block.rawAll(pointer, raws) : block.rawAll(pointer)
     }
 
     const index = this.getIndex(pointer)
-    if (this.values[index] === undefined) {
+    if (!this.isLive(index)) {
       // not a thing in this store
       if (raws) {
         return raws
       } else {
-        const raws: RawSet<R> = Object.create(null)
+        const raws: { [k: string]: RawInput } = Object.create(null)
         for (const [f, id] of Object.entries(this.names) as [
-          FieldName<K>,
+          string,
           FieldId
         ][]) {
           if (id >= 0) {
             continue
           }
-          raws[f] = 0
+          const w = this.rawWidths[~id]
+          const type = this.rawTypes[~id]
+          raws[f] =
+            type === 'bytes'
+              ? new Uint8Array(0)
+              : w === 1
+              ? rawZero(this.rawFields[~id])
+              : new rawArrays[type](w)
         }
-        return raws
+        return raws as RawValues<R>
       }
     }
 
     if (raws) {
-      for (const [f, num] of Object.entries(raws) as [
-        FieldName<R>,
-        number
+      for (const [f, val] of Object.entries(raws) as [
+        RawFieldName<R>,
+        RawInput
       ][]) {
         const fieldId = this.names[f]
         if (fieldId === undefined) {
@@ -552,65 +1991,246 @@ abstract class PointerSetBase<
         if (fieldId >= 0) {
           throw errPointerAsRaw(f)
         }
-        const slab = this.rawFields[~fieldId]
-        slab[index] = num
+        this.writeRaw(f, ~fieldId, index, val)
       }
       return raws
     } else {
-      const raws: RawSet<R> = Object.create(null)
+      const raws: { [k: string]: RawInput } = Object.create(null)
       for (const [f, id] of Object.entries(this.names) as [
-        FieldName<R>,
+        string,
         FieldId
       ][]) {
         if (id >= 0) {
           continue
         }
-        raws[f] = this.rawFields[~id][index]
+        const w = this.rawWidths[~id]
+        const slab = this.rawFields[~id]
+        raws[f] =
+          this.rawTypes[~id] === 'bytes'
+            ? this.bytesAt(~id, index).slice()
+            : w === 1
+            ? slab[index]
+            : slab.subarray(index * w, index * w + w)
       }
-      return raws
+      return raws as RawValues<R>
     }
   }
 
   /**
-   * Get the reference from the supplied pointer, in the specified field
-   */
-  ref(pointer: Pointer, field: FieldName<K>): Pointer
-  /**
-   * Set the reference from the supplied pointer, in the specified field
+   * For internal use: write a value to the raw field at index `rawId`,
+   * zeroing it if `val` is undefined. Struct fields are zeroed before
+   * writing, so that a short array leaves the rest of the struct empty.
    */
-  ref(pointer: Pointer, field: FieldName<K>, target: Pointer): Pointer
-  ref(pointer: Pointer, field: FieldName<K>, target?: Pointer): Pointer {
-    noNullPointer(pointer, target)
-    const blockId = this.getBlockId(pointer)
-    const index = this.getIndex(pointer)
-    const fieldId = this.names[field]
-    if (fieldId < 0) {
-      throw errRawAsPointer(field)
+  writeRaw(f: string, rawId: number, index: Index, val?: RawInput) {
+    if (this.rawTypes[rawId] === 'bytes') {
+      this.writeBytes(rawId, index, val as Uint8Array | string | undefined)
+      return
     }
-    const slab = this.blocks[blockId].fields[fieldId]
-    if (!slab) {
-      throw errUnknownPointerField(field)
+    const slab = this.rawFields[rawId]
+    const w = this.rawWidths[rawId]
+    if (w === 1) {
+      slab[index] = val === undefined ? rawZero(slab) : (val as number)
+      return
     }
-    if (target === undefined) {
-      // look up the ref and return the pointer
-      return slab[index] as Pointer
-    } else {
-      return (slab[index] = target)
+    const start = index * w
+    if (val !== undefined && (val as ArrayLike<unknown>).length > w) {
+      throw errStructLength(f, (val as ArrayLike<unknown>).length)
+    }
+    slab.fill(rawZero(slab), start, start + w)
+    if (val !== undefined) {
+      slab.set(val as ArrayLike<number>, start)
     }
   }
 
   /**
-   * Get the raw data from the supplied pointer, in the specified rawField
+   * For internal use: write data for the bytes field at index `rawId`
+   * to the end of the arena, and count the data that was there before
+   * as garbage. Empty data does not take any space in the arena.
    */
-  raw(pointer: Pointer, field: FieldName<R>): number
+  writeBytes(rawId: number, index: Index, val?: Uint8Array | string) {
+    const arena = this.arena as Arena
+    const slab = this.rawFields[rawId]
+    const slot = index * 2
+    arena.garbage += slab[slot + 1] as number
+    const bytes = typeof val === 'string' ? textEncoder.encode(val) : val
+    if (!bytes || !bytes.length) {
+      slab[slot] = 0
+      slab[slot + 1] = 0
+      return
+    }
+    const offset = arena.alloc(bytes.length)
+    arena.data.set(bytes, offset)
+    slab[slot] = offset
+    slab[slot + 1] = bytes.length
+  }
+
+  /**
+   * For internal use: release the data in all bytes fields for an
+   * entry that is being freed
+   */
+  releaseBytes(index: Index) {
+    for (let i = 0; i < this.rawTypes.length; i++) {
+      if (this.rawTypes[i] === 'bytes') {
+        this.writeBytes(i, index)
+      }
+    }
+  }
+
+  /**
+   * For internal use: view of the data in the arena for the bytes
+   * field at index `rawId`
+   */
+  bytesAt(rawId: number, index: Index): Uint8Array {
+    const slab = this.rawFields[rawId] as Uint32Array
+    const offset = slab[index * 2]
+    return (this.arena as Arena).data.subarray(
+      offset,
+      offset + slab[index * 2 + 1]
+    )
+  }
+
+  /**
+   * Get the reference from the supplied pointer, in the specified field
+   */
+  ref(pointer: Pointer, field: FieldName<K>): Pointer
+  /**
+   * Set the reference from the supplied pointer, in the specified field
+   */
+  ref(pointer: Pointer, field: FieldName<K>, target: Pointer): Pointer
+  ref(pointer: Pointer, field: FieldName<K>, target?: Pointer): Pointer {
+    noNullPointer(pointer, target)
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
+    const blockId = this.getBlockId(pointer)
+    const index = this.getIndex(pointer)
+    const fieldId = this.names[field]
+    if (fieldId < 0) {
+      throw errRawAsPointer(field)
+    }
+    const slab = this.blocks[blockId].fields[fieldId]
+    if (!slab) {
+      throw errUnknownPointerField(field)
+    }
+    if (target === undefined) {
+      // look up the ref and return the pointer
+      const p = slab[index] as Pointer
+      return this.gens ? this.tagGen(p) : p
+    } else {
+      if (this.gens && target) {
+        this.checkGen(target)
+      }
+      this.writeRef(fieldId, slab, index, target)
+      return target
+    }
+  }
+
+  /**
+   * For internal use: write a ref into a field slab, and update the
+   * reference counts if the field is counted.
+   */
+  writeRef(
+    fieldId: FieldId,
+    slab: Uint32Array,
+    index: Index,
+    target: Pointer
+  ): void {
+    if (!this.countedFields[fieldId]) {
+      slab[index] = target
+      return
+    }
+    const old = slab[index] as Pointer
+    if (target !== nullPointer) {
+      this.addRef(target)
+    }
+    slab[index] = target
+    if (old !== nullPointer) {
+      this.releaseRefs([old])
+    }
+  }
+
+  /**
+   * Atomically set the reference in the specified field to `next`, if
+   * it is currently `expected`. Returns the reference that was in the
+   * field, so the exchange happened if the return value is `expected`.
+   *
+   * Only the low 32 bits are compared, so with `generations: true`,
+   * an old entry and a new one in the same slot look the same.
+   *
+   * Safe to use from multiple threads on a shared set.
+   */
+  compareExchangeRef(
+    pointer: Pointer,
+    field: FieldName<K>,
+    expected: Pointer,
+    next: Pointer
+  ): Pointer {
+    noNullPointer(pointer, next)
+    if (this.gens) {
+      this.checkGen(pointer)
+      if (next) {
+        this.checkGen(next)
+      }
+    }
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
+    const blockId = this.getBlockId(pointer)
+    const index = this.getIndex(pointer)
+    const fieldId = this.names[field]
+    if (fieldId < 0) {
+      throw errRawAsPointer(field)
+    }
+    const slab = this.blocks[blockId].fields[fieldId]
+    if (!slab) {
+      throw errUnknownPointerField(field)
+    }
+    const p = Atomics.compareExchange(
+      slab,
+      index,
+      expected % max32,
+      next % max32
+    ) as Pointer
+    if (this.countedFields[fieldId] && p === expected % max32) {
+      if (next !== nullPointer) {
+        this.addRef(next)
+      }
+      if (p !== nullPointer) {
+        this.releaseRefs([p])
+      }
+    }
+    return this.gens ? this.tagGen(p) : p
+  }
+
+  /**
+   * Get the raw data from the supplied pointer, in the specified rawField
+   */
+  raw<F extends ScalarFieldName<R>>(
+    pointer: Pointer,
+    field: F
+  ): RawValue<RawTypeOf<R, F>>
   /**
    * Set the raw data from the supplied pointer, in the specified rawField
    */
-  raw(pointer: Pointer, field: FieldName<R>, val: number): number
-  raw(pointer: Pointer, field: FieldName<R>, val?: number): number {
+  raw<F extends ScalarFieldName<R>>(
+    pointer: Pointer,
+    field: F,
+    val: RawValue<RawTypeOf<R, F>>
+  ): RawValue<RawTypeOf<R, F>>
+  raw(
+    pointer: Pointer,
+    field: ScalarFieldName<R>,
+    val?: number | bigint
+  ): number | bigint {
     noNullPointer(pointer, val)
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
     const index = this.getIndex(pointer)
-    const slab = this.getRawSlab(pointer, field)
+    const slab = this.getScalarSlab(pointer, field)
     if (val === undefined) {
       return slab[index]
     } else {
@@ -618,11 +2238,40 @@ abstract class PointerSetBase<
     }
   }
 
+  /**
+   * Atomically set the raw data in the specified rawField to `next`, if
+   * it is currently `expected`. Returns the value that was in the
+   * field, so the exchange happened if the return value is `expected`.
+   *
+   * Safe to use from multiple threads on a shared set. Only allowed
+   * on integer fields.
+   */
+  compareExchangeRaw<F extends ScalarFieldName<R>>(
+    pointer: Pointer,
+    field: F,
+    expected: RawValue<RawTypeOf<R, F>>,
+    next: RawValue<RawTypeOf<R, F>>
+  ): RawValue<RawTypeOf<R, F>> {
+    noNullPointer(pointer, next)
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
+    const index = this.getIndex(pointer)
+    const slab = this.getScalarSlab(pointer, field)
+    // Atomics throws a TypeError on float arrays
+    return Atomics.compareExchange(
+      slab as Int32Array,
+      index,
+      expected as number,
+      next as number
+    ) as RawValue<RawTypeOf<R, F>>
+  }
+
   /**
    * Get the raw data from the supplied pointer, in the supplied rawField,
    * as a 4-byte Uint8Array view.  Editing the view will update the value.
    */
-  raw8(pointer: Pointer, field: FieldName<R>): Uint8ArrayLength4
+  raw8(pointer: Pointer, field: RawFieldName<R>): Uint8ArrayLength4
   /**
    * Set the raw data for the supplied pointer, in the supplied rawField,
    * to the values set in a 4-byte Uint8Array. Returns a 4-byte Uint8Array
@@ -630,16 +2279,20 @@ abstract class PointerSetBase<
    */
   raw8(
     pointer: Pointer,
-    field: FieldName<R>,
+    field: RawFieldName<R>,
     val: Uint8Array
   ): Uint8ArrayLength4
   raw8(
     pointer: Pointer,
-    field: FieldName<R>,
+    field: RawFieldName<R>,
     val?: Uint8Array
   ): Uint8ArrayLength4 {
+    if (this.checked) {
+      noNullPointer(pointer, val)
+      this.checkPointer(pointer)
+    }
     const index = this.getIndex(pointer)
-    const slab = this.getRawSlab(pointer, field)
+    const slab = this.getWordSlab(pointer, field)
     const view = new Uint8Array(
       slab.buffer,
       slab.byteOffset + index * 4,
@@ -658,7 +2311,7 @@ abstract class PointerSetBase<
    * Get the raw data from the supplied pointer, in the supplied rawField,
    * as a 2-word Uint16Array view.  Editing the view will update the value.
    */
-  raw16(pointer: Pointer, field: FieldName<R>): Uint16ArrayLength2
+  raw16(pointer: Pointer, field: RawFieldName<R>): Uint16ArrayLength2
   /**
    * Set the raw data for the supplied pointer, in the supplied rawField,
    * to the values set in a 2-word Uint16Array. Returns a 2-word Uint16Array
@@ -666,16 +2319,20 @@ abstract class PointerSetBase<
    */
   raw16(
     pointer: Pointer,
-    field: FieldName<R>,
+    field: RawFieldName<R>,
     val: Uint16Array
   ): Uint16ArrayLength2
   raw16(
     pointer: Pointer,
-    field: FieldName<R>,
+    field: RawFieldName<R>,
     val?: Uint16Array
   ): Uint16ArrayLength2 {
+    if (this.checked) {
+      noNullPointer(pointer, val)
+      this.checkPointer(pointer)
+    }
     const index = this.getIndex(pointer)
-    const slab = this.getRawSlab(pointer, field)
+    const slab = this.getWordSlab(pointer, field)
     const view = new Uint16Array(
       slab.buffer,
       slab.byteOffset + index * 4,
@@ -692,7 +2349,7 @@ abstract class PointerSetBase<
    * Get the raw data from the supplied pointer, in the supplied rawField,
    * as a 1-word Uint32Array view.  Editing the view will update the value.
    */
-  raw32(pointer: Pointer, field: FieldName<R>): Uint32ArrayLength1
+  raw32(pointer: Pointer, field: RawFieldName<R>): Uint32ArrayLength1
   /**
    * Set the raw data for the supplied pointer, in the supplied rawField,
    * to the values set in a 1-word Uint32Array. Returns a 1-word Uint32Array
@@ -700,15 +2357,19 @@ abstract class PointerSetBase<
    */
   raw32(
     pointer: Pointer,
-    field: FieldName<R>,
+    field: RawFieldName<R>,
     val: Uint32Array
   ): Uint32ArrayLength1
   raw32(
     pointer: Pointer,
-    field: FieldName<R>,
+    field: RawFieldName<R>,
     val?: Uint32Array
   ): Uint32ArrayLength1 {
-    const slab = this.getRawSlab(pointer, field)
+    if (this.checked) {
+      noNullPointer(pointer, val)
+      this.checkPointer(pointer)
+    }
+    const slab = this.getWordSlab(pointer, field)
     const index = this.getIndex(pointer)
     const view = new Uint32Array(
       slab.buffer,
@@ -721,7 +2382,197 @@ abstract class PointerSetBase<
     return view
   }
 
-  getRawSlab(pointer: Pointer, field: FieldName<R>): Uint32Array {
+  /**
+   * Get the data in the supplied rawField for the supplied pointer, as
+   * a view of the field's type, with one item for each value in the
+   * field. Editing the view will update the value.
+   */
+  rawView<F extends ViewFieldName<R>>(
+    pointer: Pointer,
+    field: F
+  ): RawArray<RawTypeOf<R, F>>
+  /**
+   * Set the data in the supplied rawField for the supplied pointer to
+   * the values provided, and return a view of it. Any values beyond
+   * the end of `val` are set to zero.
+   */
+  rawView<F extends ViewFieldName<R>>(
+    pointer: Pointer,
+    field: F,
+    val: ArrayLike<RawValue<RawTypeOf<R, F>>>
+  ): RawArray<RawTypeOf<R, F>>
+  rawView(
+    pointer: Pointer,
+    field: ViewFieldName<R>,
+    val?: ArrayLike<number | bigint>
+  ): RawSlab {
+    noNullPointer(pointer, val)
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
+    const slab = this.getRawSlab(pointer, field)
+    const index = this.getIndex(pointer)
+    const rawId = ~this.names[field]
+    const w = this.rawWidths[rawId]
+    if (val !== undefined) {
+      this.blocks[this.getBlockId(pointer)].writeRaw(
+        field,
+        rawId,
+        index,
+        val
+      )
+    }
+    return slab.subarray(index * w, index * w + w)
+  }
+
+  /**
+   * Get the data in the supplied rawField for the supplied pointer, as
+   * a Uint8Array view of its bytes. Editing the view will update the
+   * value.
+   */
+  rawBytes(pointer: Pointer, field: ViewFieldName<R>): Uint8Array
+  /**
+   * Set the bytes of the supplied rawField for the supplied pointer to
+   * the values provided, and return a Uint8Array view of them. Any
+   * bytes beyond the end of `val` are set to zero.
+   */
+  rawBytes(
+    pointer: Pointer,
+    field: ViewFieldName<R>,
+    val: ArrayLike<number>
+  ): Uint8Array
+  rawBytes(
+    pointer: Pointer,
+    field: ViewFieldName<R>,
+    val?: ArrayLike<number>
+  ): Uint8Array {
+    const view = this.rawView(pointer, field)
+    const bytes = new Uint8Array(
+      view.buffer,
+      view.byteOffset,
+      view.byteLength
+    )
+    if (val !== undefined) {
+      if (val.length > bytes.length) {
+        throw errStructLength(field, val.length)
+      }
+      bytes.fill(0)
+      bytes.set(val)
+    }
+    return bytes
+  }
+
+  /**
+   * Store the supplied data in the arena, for the bytes field of the
+   * supplied pointer. Strings are encoded as UTF-8. The space used by
+   * the data that was there before is not reused until the arena is
+   * compacted, with `compactArena()`.
+   */
+  setBytes<V extends Uint8Array | string>(
+    pointer: Pointer,
+    field: BytesFieldName<R>,
+    val: V
+  ): V {
+    noNullPointer(pointer, val)
+    const [block, rawId] = this.getBytesField(pointer, field)
+    block.writeBytes(rawId, this.getIndex(pointer), val)
+    return val
+  }
+
+  /**
+   * Get a copy of the data in the bytes field of the supplied pointer
+   */
+  getBytes(pointer: Pointer, field: BytesFieldName<R>): Uint8Array {
+    noNullPointer(pointer)
+    const [block, rawId] = this.getBytesField(pointer, field)
+    return block.bytesAt(rawId, this.getIndex(pointer)).slice()
+  }
+
+  /**
+   * Get the data in the bytes field of the supplied pointer, decoded
+   * as a UTF-8 string
+   */
+  getString(pointer: Pointer, field: BytesFieldName<R>): string {
+    noNullPointer(pointer)
+    const [block, rawId] = this.getBytesField(pointer, field)
+    return textDecoder.decode(block.bytesAt(rawId, this.getIndex(pointer)))
+  }
+
+  /**
+   * For internal use: check the pointer, and get the block it refers
+   * to and the index of the bytes field within rawFields
+   */
+  getBytesField(
+    pointer: Pointer,
+    field: BytesFieldName<R>
+  ): [PointerSetBase<T, K, R>, number] {
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
+    const fieldId = this.names[field]
+    if (fieldId === undefined) {
+      throw errUnknownRawField(field)
+    }
+    if (fieldId >= 0 || this.rawTypes[~fieldId] !== 'bytes') {
+      throw errNotBytesField(field)
+    }
+    return [this.blocks[this.getBlockId(pointer)], ~fieldId]
+  }
+
+  /**
+   * Move the data in bytes fields for all live entries to the start
+   * of the arena, so that the space left by data that was freed or
+   * overwritten can be used again, and shrink the arena if it is much
+   * bigger than it needs to be. Returns the number of bytes reclaimed.
+   */
+  compactArena(): number {
+    const { arena } = this
+    if (!arena) {
+      return 0
+    }
+    const reclaimed = arena.garbage
+    const used = arena.length - arena.garbage
+    let size = 1024
+    while (size < used) {
+      size *= 2
+    }
+    const data = new Uint8Array(size)
+    let length = 0
+    for (const block of this.blocks) {
+      for (let i = block.firstNextFree; i < block.nextFree; i++) {
+        if (!block.isLive(i as Index)) {
+          continue
+        }
+        for (let f = 0; f < this.rawTypes.length; f++) {
+          if (this.rawTypes[f] !== 'bytes') {
+            continue
+          }
+          const bytes = block.bytesAt(f, i as Index)
+          if (bytes.length) {
+            data.set(bytes, length)
+            block.rawFields[f][i * 2] = length
+            length += bytes.length
+          }
+        }
+      }
+    }
+    arena.data = data
+    arena.length = length
+    arena.garbage = 0
+    return reclaimed
+  }
+
+  /**
+   * For internal use: get the slab for a raw field, in the block that
+   * the pointer refers to
+   */
+  getRawSlab(pointer: Pointer, field: RawFieldName<R>): RawSlab {
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
     const blockId = this.getBlockId(pointer)
     const fieldId = this.names[field]
     if (fieldId >= 0) {
@@ -731,108 +2582,1498 @@ abstract class PointerSetBase<
     if (!slab) {
       throw errUnknownRawField(field)
     }
-    return slab
+    if (this.rawTypes[~fieldId] === 'bytes') {
+      throw errBytesField(field)
+    }
+    return slab
+  }
+
+  /**
+   * For internal use: get the slab for a raw field that holds a single
+   * value, for raw() and compareExchangeRaw()
+   */
+  getScalarSlab(pointer: Pointer, field: RawFieldName<R>): RawSlab {
+    const slab = this.getRawSlab(pointer, field)
+    if (this.rawWidths[~this.names[field]] !== 1) {
+      throw errStructField(field)
+    }
+    return slab
+  }
+
+  /**
+   * For internal use: get the slab for a raw field that is 32 bits
+   * wide, for the raw8/16/32 views
+   */
+  getWordSlab(pointer: Pointer, field: RawFieldName<R>): RawSlab {
+    const slab = this.getScalarSlab(pointer, field)
+    if (slab.BYTES_PER_ELEMENT !== 4) {
+      throw errNotWordField(field)
+    }
+    return slab
+  }
+
+  /**
+   * Get the data for a given pointer from the `values` array
+   */
+  value(pointer: Pointer): T | undefined
+  /**
+   * Set the data for a given pointer in the `values` array
+   */
+  value(pointer: Pointer, val: T): T
+  value(pointer: Pointer, val?: T): T | undefined {
+    noNullPointer(pointer, val)
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
+    if (val !== undefined && this.valueless) {
+      throw new TypeError('PointerSet does not store values')
+    }
+    const blockId = this.getBlockId(pointer)
+    const index = this.getIndex(pointer)
+    return val !== undefined
+      ? (this.blocks[blockId].values[index] = val)
+      : this.blocks[blockId].values[index]
+  }
+
+  /**
+   * Describe the entry at a Pointer, for debugging. Does not throw for
+   * Pointers to entries that are freed or stale, which are reported as
+   * not live.
+   */
+  describe(pointer: Pointer): PointerDescription<T, K, R> {
+    const live = this.isAllocated(pointer)
+    return {
+      blockId: this.getBlockId(pointer),
+      index: this.getIndex(pointer),
+      live,
+      value: live ? this.value(pointer) : undefined,
+      refs: live ? this.refAll(pointer) : undefined,
+      raws: live ? this.rawAll(pointer) : undefined,
+    }
+  }
+
+  /**
+   * Get the number of refs to an entry in counted fields, plus the
+   * number of times it has been retained.
+   */
+  refCount(pointer: Pointer): number {
+    return this.getCounts(pointer)[this.getIndex(pointer)]
+  }
+  /**
+   * Add one to the reference count of an entry, and return the new
+   * count. Use this to hold on to entries from outside the set.
+   */
+  retain(pointer: Pointer): number {
+    return ++this.getCounts(pointer)[this.getIndex(pointer)]
+  }
+  /**
+   * Subtract one from the reference count of an entry, and return the
+   * new count. If it drops to zero, the entry is freed, which releases
+   * the entries in its counted fields.
+   */
+  release(pointer: Pointer): number {
+    const counts = this.getCounts(pointer)
+    this.releaseRefs([pointer])
+    return counts[this.getIndex(pointer)]
+  }
+
+  /**
+   * For internal use: get the slab of reference counts for the block
+   * that a pointer is in.
+   */
+  getCounts(pointer: Pointer): Uint32Array {
+    noNullPointer(pointer)
+    if (!this.counts) {
+      throw new TypeError('PointerSet does not count references')
+    }
+    if (this.gens) {
+      this.checkGen(pointer)
+    }
+    if (this.checked) {
+      this.checkPointer(pointer)
+    }
+    return this.blocks[this.getBlockId(pointer)].counts as Uint32Array
+  }
+
+  /**
+   * Drop block from the set, or `wipeBlock()` if the root block.
+   * Only allowed on the last block in the stack.
+   */
+  drop() {
+    if (this.blockId !== this.blocks.length - 1) {
+      throw new Error('only the final block may be dropped')
+    }
+    if (this.blockId === 0) {
+      this.wipeBlock()
+    } else {
+      if (this.gens) {
+        for (let i = this.firstNextFree; i < this.nextFree; i++) {
+          if (this.isLive(i as Index)) {
+            this.nextGen(i as Index)
+          }
+        }
+      }
+      this.keepGens(this.blockId, this.gens)
+      this.addAvailable(-this.available(this.blockId))
+      this.blocksAvail.delete(this)
+      this.blocks.pop()
+    }
+  }
+
+  /**
+   * Pop any empty blocks off the end of the stack.
+   */
+  dropEmpty(): void {
+    const blocks = this.blocks
+    for (let i = this.blocks.length - 1; i > 0; i--) {
+      if (blocks[i].entryCount(i) === 0) {
+        blocks[i].drop()
+      }
+    }
+  }
+
+  /**
+   * Move entries into the lowest free slots in the set, rewrite every
+   * reference in the `fields` slabs to match, and drop the blocks that
+   * are left empty.
+   *
+   * Returns a Map of the Pointers that were moved to their new
+   * locations. Pointers that are not in the Map did not move. With
+   * `generations: true`, the moved entries' old slots are moved on to
+   * their next generation.
+   *
+   * Not allowed on concurrent sets. Copies of a shared set in other
+   * threads must be attached again after compacting.
+   */
+  compact(): Map<Pointer, Pointer> {
+    if (this.concurrent) {
+      throw new Error('cannot compact a concurrent set')
+    }
+    const { blocks, blockSize } = this
+    // once compacted, every entry is below this position, counting
+    // the null pointer at position 0.
+    const size = this.size()
+    const remap = new Map<Pointer, Pointer>()
+    // refs in the slabs don't have generations, so keep those apart
+    const handles = this.gens ? new Map<Pointer, Pointer>() : remap
+    const holes: Pointer[] = []
+    for (let b = 0; b < blocks.length; b++) {
+      const block = blocks[b]
+      for (let i = block.firstNextFree as Index; i < blockSize; i++) {
+        const pos = b * blockSize + i
+        if (pos < size) {
+          if (!block.isLive(i)) {
+            holes.push(this.getPointer(b as BlockId, i))
+          }
+        } else if (i < block.nextFree && block.isLive(i)) {
+          // all the holes come before any entries that have to move
+          const dest = holes[remap.size]
+          const from = this.getPointer(b as BlockId, i)
+          remap.set(from, dest)
+          if (this.gens) {
+            handles.set(this.tagGen(from), this.tagGen(dest))
+            block.nextGen(i)
+          }
+          const to = blocks[this.getBlockId(dest)]
+          const index = this.getIndex(dest)
+          for (let f = 0; f < block.fields.length; f++) {
+            to.fields[f][index] = block.fields[f][i]
+          }
+          for (let f = 0; f < block.rawFields.length; f++) {
+            const w = this.rawWidths[f]
+            to.rawFields[f].set(
+              block.rawFields[f].subarray(i * w, i * w + w),
+              index * w
+            )
+            if (this.rawTypes[f] === 'bytes') {
+              // the data belongs to the moved entry now
+              block.rawFields[f].fill(0, i * w, i * w + w)
+            }
+          }
+          if (block.counts) {
+            ;(to.counts as Uint32Array)[index] = block.counts[i]
+          }
+          if (!this.valueless) {
+            to.values[index] = block.values[i]
+            block.values[i] = undefined
+          }
+          to.setLive(index, true)
+          block.setLive(i, false)
+        }
+      }
+    }
+
+    for (const block of blocks.splice(Math.ceil(size / blockSize))) {
+      this.blocksAvail.delete(block)
+      this.keepGens(block.blockId, block.gens)
+    }
+    for (let b = 0; b < blocks.length; b++) {
+      const block = blocks[b]
+      block.freeList.length = 0
+      block.nextFree = Math.min(blockSize, size - b * blockSize) as Index
+      if (block.values.length > block.nextFree) {
+        block.values.length = block.nextFree
+      }
+      if (block.nextFree < blockSize) {
+        this.blocksAvail.add(block)
+      } else {
+        this.blocksAvail.delete(block)
+      }
+      if (remap.size) {
+        for (const slab of block.fields) {
+          for (let i = block.firstNextFree; i < block.nextFree; i++) {
+            const dest = remap.get(slab[i] as Pointer)
+            if (dest !== undefined) {
+              slab[i] = dest
+            }
+          }
+        }
+      }
+    }
+    blocks[0].state[stateBlockCount] = blocks.length
+    blocks[0].state[stateAvailable] = blocks.length * blockSize - size
+    return handles
+  }
+
+  /**
+   * Free every entry that can't be reached from the `roots` by
+   * following the refs in the specified `fields` (all of them, by
+   * default). Returns the number of entries freed.
+   *
+   * Reachable entries are marked in a bit set for each block, rather
+   * than a JavaScript Set, so collecting a large set does not create
+   * much garbage of its own.
+   *
+   * Counted refs held by the unreachable entries are removed before
+   * they are freed, so that reachable entries are never released.
+   *
+   * Not allowed on concurrent sets.
+   */
+  collect(roots: Pointer[], fields?: FieldName<K>[]): number {
+    if (this.concurrent) {
+      throw new Error('cannot collect a concurrent set')
+    }
+    const { blocks } = this
+    const fieldIds = this.pointerFieldIds(fields)
+
+    // mark entries as they are found, so each is only pushed once
+    const words = Math.ceil(this.blockSize / 32)
+    const marks = blocks.map(() => new Int32Array(words))
+    let stack = new Uint32Array(64)
+    let top = 0
+    const mark = (p: Pointer) => {
+      const block = blocks[this.getBlockId(p)]
+      const index = this.getIndex(p)
+      if (!block || index >= block.nextFree || !block.isLive(index)) {
+        return
+      }
+      const bits = marks[block.blockId]
+      const bit = 1 << (index & 31)
+      if (bits[index >> 5] & bit) {
+        return
+      }
+      bits[index >> 5] |= bit
+      if (top === stack.length) {
+        const grown = new Uint32Array(top * 2)
+        grown.set(stack)
+        stack = grown
+      }
+      stack[top++] = p
+    }
+    for (const root of roots) {
+      if (root !== nullPointer) {
+        if (this.gens) {
+          this.checkGen(root)
+        }
+        mark(root)
+      }
+    }
+    while (top) {
+      const p = stack[--top] as Pointer
+      const block = blocks[this.getBlockId(p)]
+      const index = this.getIndex(p)
+      for (const f of fieldIds) {
+        const ref = block.fields[f][index] as Pointer
+        if (ref !== nullPointer) {
+          mark(ref)
+        }
+      }
+    }
+
+    const marked = (b: number, i: number) =>
+      !!marks[b] && !!(marks[b][i >> 5] & (1 << (i & 31)))
+
+    // take the counted refs out of the unreachable entries first, so
+    // that freeing them does not release entries that are reachable.
+    // the reachable ones just have their counts lowered.
+    if (this.counts) {
+      for (let b = 0; b < blocks.length; b++) {
+        const block = blocks[b]
+        for (let i = block.firstNextFree; i < block.nextFree; i++) {
+          if (marked(b, i) || !block.isLive(i as Index)) {
+            continue
+          }
+          for (let f = 0; f < block.fields.length; f++) {
+            const ref = block.fields[f][i] as Pointer
+            if (!this.countedFields[f] || ref === nullPointer) {
+              continue
+            }
+            const to = this.getBlockId(ref)
+            const index = this.getIndex(ref)
+            if (marked(to, index)) {
+              ;(blocks[to].counts as Uint32Array)[index]--
+            }
+            block.fields[f][i] = 0
+          }
+        }
+      }
+    }
+
+    // sweep from the top down, so that blocks shrink where they can.
+    const size = this.size()
+    for (let b = blocks.length - 1; b >= 0; b--) {
+      const block = blocks[b]
+      for (let i = block.nextFree - 1; i >= block.firstNextFree; i--) {
+        if (!marked(b, i) && block.isLive(i as Index)) {
+          const p = this.getPointer(b as BlockId, i as Index)
+          block.free(this.gens ? this.tagGen(p) : p)
+        }
+      }
+    }
+    return size - this.size()
+  }
+
+  /**
+   * number of entries in a given block
+   */
+  entryCount(blockId: number): number {
+    if (blockId !== this.blockId) {
+      return this.blocks[blockId].entryCount(blockId)
+    }
+    return this.nextFree - this.freeList.length
+  }
+  /**
+   * number of available spaces in a given block
+   */
+  available(blockId: number): number {
+    if (blockId !== this.blockId) {
+      return this.blocks[blockId].available(blockId)
+    }
+    return this.blockSize - this.entryCount(blockId)
+  }
+
+  /**
+   * Total number of entries in the entire PointerSet
+   * Note that it is always at least 1, because the root
+   * block's zero-entry is reserved for the nullPointer.
+   */
+  size(): number {
+    let size = 0
+    for (let i = 0; i < this.blocks.length; i++) {
+      size += this.blocks[i].entryCount(i)
+    }
+    return size
+  }
+  /**
+   * Total number of available spaces in the entire PointerSet.
+   *
+   * This is kept up to date as entries are allocated and freed, so
+   * it does not have to look at every block. In a concurrent set, it
+   * includes space in blocks that other threads have created, even if
+   * they are not attached to this copy of the set yet.
+   */
+  totalAvailable(): number {
+    const { state } = this.blocks[0]
+    return this.concurrent
+      ? Atomics.load(state, stateAvailable)
+      : state[stateAvailable]
+  }
+
+  /**
+   * Add blocks to the end of the set until there is space for at least
+   * `n` more entries, so that the next `n` calls to `alloc()` do not
+   * have to create a block. Returns the number of blocks added.
+   *
+   * Throws `errOutOfMemory` if the blocks it would add take the set
+   * over `maxBytes`. Entries are never evicted to make room.
+   */
+  reserve(n: number): number {
+    const { maxBytes } = this
+    if (maxBytes !== undefined && this.overBytes(n)) {
+      throw errOutOfMemory('maxBytes', maxBytes)
+    }
+    let added = 0
+    while (this.totalAvailable() < n) {
+      this.growBlock()
+      added++
+    }
+    return added
+  }
+
+  /**
+   * Drop empty blocks off the end of the set, as long as there is still
+   * space for at least `keepFree` more entries without creating a new
+   * block. Returns the number of blocks dropped.
+   *
+   * Not allowed on concurrent sets.
+   */
+  trim({ keepFree = 0 }: { keepFree?: number } = {}): number {
+    if (this.concurrent) {
+      throw new Error('cannot trim a concurrent set')
+    }
+    const { blocks, blockSize } = this
+    let dropped = 0
+    for (let i = blocks.length - 1; i > 0; i--) {
+      if (
+        blocks[i].entryCount(i) !== 0 ||
+        this.totalAvailable() - blockSize < keepFree
+      ) {
+        break
+      }
+      blocks[i].drop()
+      dropped++
+    }
+    return dropped
+  }
+
+  /**
+   * Number of blocks in the PointerSet
+   */
+  blocksCount(): number {
+    return this.blocks.length
+  }
+
+  /**
+   * Report the number of entries and free slots, the memory used by
+   * each block and the whole set, and how fragmented they are, to
+   * help decide when `compact()` or `trim()` would pay off.
+   */
+  stats(): PointerSetStats {
+    const sum = (a: number, b: ArrayBufferView | undefined) =>
+      a + (b ? b.byteLength : 0)
+    const fragmentation = (
+      { freeList, nextFree }: BlockStats,
+      first: number
+    ) => (nextFree > first ? freeList / (nextFree - first) : 0)
+    const blocks = this.blocks.map(block => {
+      const { firstNextFree, nextFree } = block
+      const freeList = block.freeList.length
+      const stats: BlockStats = {
+        live: nextFree - firstNextFree - freeList,
+        freeList,
+        nextFree,
+        refBytes: block.fields.reduce(sum, 0),
+        rawBytes: block.rawFields.reduce(sum, 0),
+        freeListBytes: block.freeList.data.byteLength,
+        valueBytes: this.valueless ? 0 : block.values.length * 8,
+        metaBytes: [
+          block.state,
+          block.live,
+          block.gens,
+          block.counts,
+        ].reduce(sum, 0),
+        bytes: 0,
+        fragmentation: 0,
+      }
+      stats.bytes =
+        stats.refBytes +
+        stats.rawBytes +
+        stats.freeListBytes +
+        stats.valueBytes +
+        stats.metaBytes
+      stats.fragmentation = fragmentation(stats, firstNextFree)
+      return stats
+    })
+
+    const total: PointerSetStats = {
+      live: 0,
+      freeList: 0,
+      nextFree: 0,
+      refBytes: 0,
+      rawBytes: 0,
+      freeListBytes: 0,
+      valueBytes: 0,
+      metaBytes: 0,
+      bytes: this.arena ? this.arena.data.byteLength : 0,
+      fragmentation: 0,
+      blocks,
+      arenaBytes: this.arena ? this.arena.data.byteLength : 0,
+      arenaGarbage: this.arena ? this.arena.garbage : 0,
+      reclaimableBlocks:
+        blocks.length -
+        Math.max(1, Math.ceil(this.size() / this.blockSize)),
+    }
+    for (const b of blocks) {
+      total.live += b.live
+      total.freeList += b.freeList
+      total.nextFree += b.nextFree
+      total.refBytes += b.refBytes
+      total.rawBytes += b.rawBytes
+      total.freeListBytes += b.freeListBytes
+      total.valueBytes += b.valueBytes
+      total.metaBytes += b.metaBytes
+      total.bytes += b.bytes
+    }
+    total.fragmentation = fragmentation(
+      total,
+      this.blocks[0].firstNextFree
+    )
+    return total
+  }
+
+  /**
+   * Iterate over the Pointers of every live entry in the set, in order
+   * of blockId and then index. The null pointer is skipped.
+   *
+   * Each slot is checked when it is reached, so entries freed before
+   * then are skipped, and entries allocated in slots (or blocks) that
+   * have not been reached yet are included. Entries allocated in slots
+   * that have already been passed are not.
+   */
+  *pointers(): Generator<Pointer, void, void> {
+    const { blocks } = this
+    for (let b = 0; b < blocks.length; b++) {
+      const block = blocks[b]
+      for (let i = block.firstNextFree; i < block.nextFree; i++) {
+        if (block.isLive(i as Index)) {
+          const p = this.getPointer(b as BlockId, i as Index)
+          yield this.gens ? this.tagGen(p) : p
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterate over `[pointer, value]` for every live entry in the set.
+   * See `pointers()` for the order, and what happens if the set is
+   * changed during iteration.
+   */
+  *entries(): Generator<[Pointer, T | undefined], void, void> {
+    for (const p of this.pointers()) {
+      yield [p, this.blocks[this.getBlockId(p)].values[this.getIndex(p)]]
+    }
+  }
+
+  /**
+   * Same as `entries()`
+   */
+  [Symbol.iterator](): Generator<[Pointer, T | undefined], void, void> {
+    return this.entries()
+  }
+
+  /**
+   * Summary shown by `util.inspect()` and `console.log()` in Node, with
+   * the fields, the number of entries and free slots in each block,
+   * and the first few entries, rather than the contents of every slab.
+   *
+   * Versions of Node before 16.14 do not pass the `inspect` function,
+   * so the summary is returned as an object for Node to format.
+   */
+  [inspectSymbol](
+    depth: number,
+    options: { stylize: (s: string, style: string) => string },
+    inspect?: (value: unknown, options: unknown) => string
+  ): string | {} {
+    const name = this.constructor.name
+    if (depth < 0) {
+      return options.stylize(`[${name}]`, 'special')
+    }
+    const [fields, rawFields] = this.fieldLists()
+    // each entry is rendered on its own line up front, so that its refs
+    // and raws are shown no matter how deeply the set is nested
+    const entries = new Map<Pointer, {}>()
+    for (const p of this.pointers()) {
+      if (entries.size === inspectEntries) {
+        break
+      }
+      const { value, refs, raws } = this.describe(p)
+      const entry = { value, refs: { ...refs }, raws: { ...raws } }
+      if (typeof inspect === 'function') {
+        const line = inspect(entry, { ...options, breakLength: Infinity })
+        entries.set(p, { [inspectSymbol]: () => line })
+      } else {
+        entries.set(p, entry)
+      }
+    }
+    const summary = {
+      fields,
+      rawFields,
+      blockSize: this.blockSize,
+      size: this.size(),
+      available: this.totalAvailable(),
+      blocks: this.blocks.map((_, blockId) => ({
+        entries: this.entryCount(blockId),
+        available: this.available(blockId),
+      })),
+      entries,
+    }
+    return typeof inspect === 'function'
+      ? name + ' ' + inspect(summary, { ...options, depth })
+      : summary
+  }
+
+  /**
+   * Get the entries in the set as a list of nodes, and the refs between
+   * them as a list of edges, one for each field, for debugging or
+   * drawing with other tools. Refs to entries that are not live are
+   * left out.
+   */
+  toGraph({
+    roots,
+    fields,
+    format,
+  }: GraphOptions<T, K, R> = {}): PointerGraph {
+    const fieldIds = this.pointerFieldIds(fields)
+    const [names] = this.fieldLists()
+    const tag = (p: Pointer) => (this.gens ? this.tagGen(p) : p)
+    const graph: PointerGraph = { nodes: [], edges: [] }
+    const pointers = roots
+      ? this.reachable(roots, fieldIds).map(tag)
+      : this.pointers()
+    for (const pointer of pointers) {
+      const value = this.value(pointer)
+      graph.nodes.push({
+        pointer,
+        label: format
+          ? format(value, this.rawAll(pointer), pointer)
+          : String(value ?? pointer),
+      })
+      const block = this.blocks[this.getBlockId(pointer)]
+      const index = this.getIndex(pointer)
+      for (const f of fieldIds) {
+        const to = block.fields[f][index] as Pointer
+        if (to !== nullPointer && this.isAllocated(tag(to))) {
+          graph.edges.push({ from: pointer, to: tag(to), field: names[f] })
+        }
+      }
+    }
+    return graph
+  }
+
+  /**
+   * Same as `toGraph()`, but written in the Graphviz DOT language, with
+   * each edge labelled with the name of its field.
+   */
+  toDot(options: GraphOptions<T, K, R> = {}): string {
+    const { nodes, edges } = this.toGraph(options)
+    const lines = ['digraph PointerSet {']
+    for (const { pointer, label } of nodes) {
+      lines.push(`  p${pointer} [label=${JSON.stringify(label)}];`)
+    }
+    for (const { from, to, field } of edges) {
+      lines.push(`  p${from} -> p${to} [label=${JSON.stringify(field)}];`)
+    }
+    lines.push('}', '')
+    return lines.join('\n')
+  }
+
+  /**
+   * Make an independent copy of the entire PointerSet, in which every
+   * Pointer into this set refers to the same entry.
+   *
+   * Values are copied with the supplied `copyValue` function, or
+   * shared with this set if it is not provided. Copies of shared sets
+   * are also shared, but in new memory, and without the `onBlock` and
+   * `onMissingBlocks` callbacks. The `maxEntries` and `maxBytes`
+   * limits, `onPressure`, and `evict` are not copied either.
+   */
+  clone(copyValue?: (value: T) => T): PointerSet<T, K, R> {
+    const store = this.emptyCopy()
+    for (let b = 0; b < this.blocks.length; b++) {
+      const from = this.blocks[b]
+      const to = b === 0 ? store : store.newBlock()
+      to.state.set(from.state)
+      to.state[stateLock] = 0
+      for (let f = 0; f < from.fields.length; f++) {
+        to.fields[f].set(from.fields[f])
+      }
+      for (let f = 0; f < from.rawFields.length; f++) {
+        to.rawFields[f].set(from.rawFields[f])
+      }
+      to.freeList.data.set(from.freeList.data)
+      for (const slab of ['live', 'gens', 'counts'] as const) {
+        to[slab]?.set(from[slab] as Int32Array & Uint32Array)
+      }
+      if (!this.valueless) {
+        to.values = copyValue
+          ? from.values.map(v => (v === undefined ? v : copyValue(v)))
+          : from.values.slice()
+      }
+      if (!to.freeList.length && to.nextFree >= this.blockSize) {
+        store.blocksAvail.delete(to)
+      }
+    }
+    if (this.arena) {
+      const arena = store.arena as Arena
+      const { data, length, garbage } = this.arena
+      arena.data.set(data.subarray(0, length), arena.alloc(length))
+      arena.garbage = garbage
+    }
+    const { droppedGens } = this.blocks[0]
+    if (droppedGens) {
+      store.droppedGens = new Map()
+      for (const [blockId, gens] of droppedGens) {
+        const copy = genSlab(this.blockSize, this.shared)
+        copy.set(gens)
+        store.droppedGens.set(blockId, copy)
+      }
+    }
+    store.state[stateBlockCount] = store.blocks.length
+    store.countAvailable()
+    return store
+  }
+
+  /**
+   * For internal use: a new empty PointerSet with the same fields,
+   * block size, and options as this one. The memory limits and their
+   * callbacks are not copied.
+   */
+  emptyCopy(): PointerSet<T, K, R> {
+    const [fields, rawFields] = this.fieldLists()
+    return new PointerSet<T, K, R>(
+      fields as unknown as K,
+      this.blockSize,
+      rawFields as unknown as R,
+      {
+        shared: this.shared,
+        concurrent: this.concurrent,
+        generations: this.generations,
+        checked: this.checked,
+        valueless: this.valueless,
+        counted: fields.filter((_, i) => this.countedFields[i]),
+      }
+    )
+  }
+
+  /**
+   * Copy every entry that can be reached from the `roots` by following
+   * the refs in the specified `fields` (all of them, by default) into
+   * a new PointerSet with the same fields and options. Cycles are
+   * only copied once.
+   *
+   * The new set is densely packed, starting from the first entry in
+   * its root block, in the order that the entries are found. Refs in
+   * the copies are rewritten to point at the other copies, or to the
+   * null pointer for entries that were not copied.
+   *
+   * Returns the new set, and a Map of the Pointers in this set to
+   * their copies in the new one. Values are copied with the
+   * `copyValue` function, if provided.
+   */
+  extract(
+    roots: Pointer[],
+    fields?: FieldName<K>[],
+    copyValue?: (value: T) => T
+  ): [PointerSet<T, K, R>, Map<Pointer, Pointer>] {
+    const from = this.reachable(roots, this.pointerFieldIds(fields))
+    const store = this.emptyCopy()
+    return [store, store.copyEntries(this, from, copyValue)]
+  }
+
+  /**
+   * For internal use: the ids of the named pointer fields, or all of
+   * them if no names are given.
+   */
+  pointerFieldIds(fields?: FieldName<K>[]): FieldId[] {
+    const fieldIds: FieldId[] = []
+    if (fields) {
+      for (const f of fields) {
+        const fieldId = this.names[f]
+        if (fieldId === undefined) {
+          throw errUnknownPointerField(f)
+        }
+        if (fieldId < 0) {
+          throw errRawAsPointer(f)
+        }
+        fieldIds.push(fieldId)
+      }
+    } else {
+      for (let f = 0; f < this.fields.length; f++) {
+        fieldIds.push(f as FieldId)
+      }
+    }
+    return fieldIds
+  }
+
+  /**
+   * For internal use: the Pointers of the live entries that can be
+   * reached from the `roots` by following the refs in the fields
+   * with the given ids, without generations, in the order found.
+   */
+  reachable(roots: Pointer[], fieldIds: FieldId[]): Pointer[] {
+    const found: Pointer[] = []
+    const seen = new Set<Pointer>()
+    const visit = (p: Pointer) => {
+      const block = this.blocks[this.getBlockId(p)]
+      const index = this.getIndex(p)
+      if (!block || index >= block.nextFree || !block.isLive(index)) {
+        return
+      }
+      const pointer = this.getPointer(block.blockId, index)
+      if (!seen.has(pointer)) {
+        seen.add(pointer)
+        found.push(pointer)
+      }
+    }
+    for (const root of roots) {
+      if (root !== nullPointer) {
+        if (this.gens) {
+          this.checkGen(root)
+        }
+        visit(root)
+      }
+    }
+    for (let i = 0; i < found.length; i++) {
+      const block = this.blocks[this.getBlockId(found[i])]
+      const index = this.getIndex(found[i])
+      for (const f of fieldIds) {
+        if (block.fields[f][index] !== nullPointer) {
+          visit(block.fields[f][index] as Pointer)
+        }
+      }
+    }
+    return found
+  }
+
+  /**
+   * Copy the entries of another PointerSet into this one, and rewrite
+   * the refs in them to point at the copies. Returns a Map of the
+   * Pointers in the other set to the new Pointers in this one.
+   *
+   * Every field in the other set must exist in this one, with the
+   * same type. Fields that only exist in this set are left empty.
+   *
+   * If `roots` are given, then only the entries that can be reached
+   * from them by following refs are copied. Refs to entries that are
+   * not copied are set to the null pointer. Values are copied with
+   * the `copyValue` function, if provided. Reference counts are not
+   * copied, but counted refs in the copies are counted as usual.
+   */
+  merge<K2 extends readonly string[], R2 extends readonly RawFieldSpec[]>(
+    other: PointerSet<T, K2, R2>,
+    {
+      roots,
+      copyValue,
+    }: { roots?: Pointer[]; copyValue?: (value: T) => T } = {}
+  ): Map<Pointer, Pointer> {
+    const from: Pointer[] = []
+    if (roots) {
+      from.push(...other.reachable(roots, other.pointerFieldIds()))
+    } else {
+      for (const block of other.blocks) {
+        for (let i = block.firstNextFree; i < block.nextFree; i++) {
+          if (block.isLive(i as Index)) {
+            from.push(other.getPointer(block.blockId, i as Index))
+          }
+        }
+      }
+    }
+    return this.copyEntries(other, from, copyValue)
+  }
+
+  /**
+   * For internal use: copy the entries at the `from` Pointers in
+   * another set into new entries in this one, and return the Map of
+   * their old Pointers to the new ones.
+   */
+  copyEntries<
+    K2 extends readonly string[],
+    R2 extends readonly RawFieldSpec[]
+  >(
+    other: PointerSetBase<T, K2, R2>,
+    from: Pointer[],
+    copyValue?: (value: T) => T
+  ): Map<Pointer, Pointer> {
+    // the ids of the other set's fields in this set
+    const fieldMap: FieldId[] = []
+    const rawMap: number[] = []
+    const names = this.names as Record<string, FieldId>
+    for (const [f, id] of Object.entries(other.names) as [
+      string,
+      FieldId
+    ][]) {
+      const fieldId = names[f]
+      if (
+        fieldId === undefined ||
+        fieldId < 0 !== id < 0 ||
+        (id < 0 &&
+          (this.rawTypes[~fieldId] !== other.rawTypes[~id] ||
+            this.rawWidths[~fieldId] !== other.rawWidths[~id]))
+      ) {
+        throw errIncompatibleField(f)
+      }
+      if (id < 0) {
+        rawMap[~id] = ~fieldId
+      } else {
+        fieldMap[id] = fieldId
+      }
+    }
+
+    const ptrs = this.allocMany(from.length)
+    const remap = new Map<Pointer, Pointer>()
+    for (let i = 0; i < from.length; i++) {
+      remap.set(
+        from[i],
+        ('start' in ptrs ? ptrs.start + i : ptrs[i]) as Pointer
+      )
+    }
+    const handles = new Map<Pointer, Pointer>()
+    for (const [old, p] of remap) {
+      const src = other.blocks[other.getBlockId(old)]
+      const i = other.getIndex(old)
+      const block = this.blocks[this.getBlockId(p)]
+      const index = this.getIndex(p)
+      if (!this.valueless && !other.valueless) {
+        const value = src.values[i] as T
+        block.values[index] = copyValue ? copyValue(value) : value
+      }
+      for (let f = 0; f < src.fields.length; f++) {
+        const ref = remap.get(src.fields[f][i] as Pointer)
+        if (ref !== undefined) {
+          block.fields[fieldMap[f]][index] = ref
+          if (this.countedFields[fieldMap[f]]) {
+            this.addRef(ref)
+          }
+        }
+      }
+      for (let r = 0; r < src.rawFields.length; r++) {
+        if (other.rawTypes[r] === 'bytes') {
+          block.writeBytes(rawMap[r], index, src.bytesAt(r, i))
+        } else {
+          const w = other.rawWidths[r]
+          block.rawFields[rawMap[r]].set(
+            src.rawFields[r].subarray(i * w, i * w + w),
+            index * w
+          )
+        }
+      }
+      handles.set(other.gens ? other.tagGen(old) : old, p)
+    }
+    return handles
+  }
+
+  /**
+   * For internal use: make sure that there is room for `n` more
+   * entries within the `maxEntries` and `maxBytes` limits, by calling
+   * `onPressure` and then freeing the entries that `evict` picks, or
+   * throw `errOutOfMemory` if there is not.
+   */
+  makeRoom(n: number): void {
+    const { maxEntries } = this
+    if (maxEntries !== undefined && n > maxEntries) {
+      throw errOutOfMemory('maxEntries', maxEntries)
+    }
+    let over = this.overLimit(n)
+    if (over && this.onPressure) {
+      this.onPressure(n)
+      over = this.overLimit(n)
+    }
+    while (over && this.evict) {
+      const p = this.evict()
+      if (!p || !this.isAllocated(p)) {
+        break
+      }
+      this.free(p)
+      over = this.overLimit(n)
+    }
+    if (over) {
+      throw errOutOfMemory(over, this[over] as number)
+    }
+  }
+
+  /**
+   * For internal use: the name of the limit that allocating `n` more
+   * entries would go over, if any.
+   */
+  overLimit(n: number): 'maxEntries' | 'maxBytes' | undefined {
+    const { blocks, blockSize, maxEntries, maxBytes } = this
+    const available = this.totalAvailable()
+    // the null pointer takes up a slot, but is not an entry
+    const live = blocks.length * blockSize - available - 1
+    if (maxEntries !== undefined && live + n > maxEntries) {
+      return 'maxEntries'
+    }
+    if (maxBytes !== undefined && this.overBytes(n)) {
+      return 'maxBytes'
+    }
+  }
+
+  /**
+   * For internal use: true if adding the blocks needed for `n` more
+   * entries would go over `maxBytes`
+   */
+  overBytes(n: number): boolean {
+    const available = this.totalAvailable()
+    if (n <= available) {
+      return false
+    }
+    const count =
+      this.blocks.length + Math.ceil((n - available) / this.blockSize)
+    return count * this.blockBytes() > (this.maxBytes as number)
+  }
+
+  /**
+   * For internal use: the number of bytes used by the slabs of each
+   * block in the set.
+   */
+  blockBytes(): number {
+    const sum = (a: number, b: ArrayBufferView | undefined) =>
+      a + (b ? b.byteLength : 0)
+    return [
+      ...this.fields,
+      ...this.rawFields,
+      this.freeList.data,
+      this.state,
+      this.live,
+      this.gens,
+      this.counts,
+    ].reduce(sum, 0)
+  }
+
+  /**
+   * For internal use: set the count of free space in the whole set by
+   * adding up the space in each block.
+   */
+  countAvailable(): void {
+    let available = 0
+    for (let b = 0; b < this.blocks.length; b++) {
+      available += this.available(b)
+    }
+    this.blocks[0].state[stateAvailable] = available
+  }
+
+  /**
+   * Serialize the entire PointerSet into a single binary snapshot,
+   * which can be loaded with `PointerSet.fromBuffer()`. Every Pointer
+   * into this set refers to the same entry in the loaded copy.
+   *
+   * Values are written with the supplied `codec`, which defaults to
+   * `nullCodec`, for sets where T is `null`.
+   */
+  toBuffer(
+    codec: ValueCodec<T> = nullCodec as ValueCodec<any>
+  ): Uint8Array {
+    const [fields, rawFields] = this.fieldLists()
+    const header: SnapshotHeader = {
+      littleEndian,
+      blockSize: this.blockSize,
+      wordSize: this.wordSize,
+      fields,
+      rawFields,
+      generations: this.generations,
+      valueless: this.valueless,
+      counted: fields.filter((_, i) => this.countedFields[i]),
+      blocks: [],
+    }
+    const { arena } = this
+    if (arena) {
+      header.arena = { length: arena.length, garbage: arena.garbage }
+    }
+
+    // encode all the values first, so that we know how big to make it
+    const slabBytes = this.blockSize * 4
+    const encoded: Uint8Array[][] = []
+    let size = 0
+    for (const block of this.blocks) {
+      header.blocks.push({
+        nextFree: block.nextFree,
+        freeCount: block.freeList.length,
+      })
+      const values: Uint8Array[] = []
+      for (let i = block.firstNextFree; i < block.nextFree; i++) {
+        if (!this.valueless && block.isLive(i as Index)) {
+          const bytes = codec.encode(block.values[i] as T)
+          values.push(bytes)
+          size += 4 + align4(bytes.byteLength)
+        }
+      }
+      encoded.push(values)
+      size += fields.length * slabBytes
+      for (const slab of block.rawFields) {
+        size += align4(slab.byteLength)
+      }
+      if (block.gens) {
+        size += slabBytes
+      }
+      if (block.counts) {
+        size += slabBytes
+      }
+      size += align4(block.freeList.length * this.wordSize)
+    }
+    if (arena) {
+      size += align4(arena.length)
+    }
+    const json = new TextEncoder().encode(JSON.stringify(header))
+    const headerSize = 12 + align4(json.byteLength)
+    size += headerSize
+
+    const buf = new Uint8Array(size)
+    const dv = new DataView(buf.buffer)
+    for (let i = 0; i < snapshotMagic.length; i++) {
+      buf[i] = snapshotMagic.charCodeAt(i)
+    }
+    dv.setUint32(4, snapshotVersion, true)
+    dv.setUint32(8, json.byteLength, true)
+    buf.set(json, 12)
+    let offset = headerSize
+    const write = (
+      data: ArrayBufferView,
+      byteLength: number,
+      start = 0,
+      end = byteLength
+    ) => {
+      buf.set(
+        new Uint8Array(data.buffer, data.byteOffset + start, end - start),
+        offset + start
+      )
+      offset += align4(byteLength)
+    }
+    for (let b = 0; b < this.blocks.length; b++) {
+      const block = this.blocks[b]
+      // only the slots that have been allocated are copied, the rest
+      // were never written and may hold whatever was in memory before,
+      // so they are left as zeroes.
+      const writeSlab = (slab: ArrayBufferView) => {
+        const width = slab.byteLength / this.blockSize
+        write(
+          slab,
+          slab.byteLength,
+          width * block.firstNextFree,
+          width * block.nextFree
+        )
+      }
+      for (const slab of block.fields) {
+        writeSlab(slab)
+      }
+      for (const slab of block.rawFields) {
+        writeSlab(slab)
+      }
+      // generations are set up front, and kept for every slot
+      if (block.gens) {
+        write(block.gens, slabBytes)
+      }
+      if (block.counts) {
+        writeSlab(block.counts)
+      }
+      write(block.freeList.data, block.freeList.length * this.wordSize)
+      for (const bytes of encoded[b]) {
+        dv.setUint32(offset, bytes.byteLength, true)
+        offset += 4
+        write(bytes, bytes.byteLength)
+      }
+    }
+    if (arena) {
+      write(arena.data, arena.length)
+    }
+    return buf
   }
 
   /**
-   * Get the data for a given pointer from the `values` array
+   * For internal use: the lists of field names and rawField specs, in
+   * the order of their slabs
    */
-  value(pointer: Pointer): T | undefined
+  fieldLists(): [string[], RawFieldSpec[]] {
+    const fields: string[] = []
+    const rawFields: RawFieldSpec[] = []
+    for (const [f, id] of Object.entries(this.names) as [
+      string,
+      FieldId
+    ][]) {
+      if (id < 0) {
+        const type = this.rawTypes[~id]
+        const width = this.rawWidths[~id]
+        rawFields[~id] =
+          type === 'bytes'
+            ? [f, type]
+            : width !== 1
+            ? [f, type, width]
+            : type === 'uint32'
+            ? f
+            : [f, type]
+      } else {
+        fields[id] = f
+      }
+    }
+    return [fields, rawFields]
+  }
+
   /**
-   * Set the data for a given pointer in the `values` array
+   * Add a pointer field to the set, with a zeroed slab in every block.
+   * With `{ counted: true }`, the refs in the field are counted, as if
+   * it had been listed in the `counted` option.
+   *
+   * Returns the set, typed with the new field added to `K`.
+   *
+   * Not allowed on shared sets.
    */
-  value(pointer: Pointer, val: T): T
-  value(pointer: Pointer, val?: T): T | undefined {
-    noNullPointer(pointer, val)
-    const blockId = this.getBlockId(pointer)
-    const index = this.getIndex(pointer)
-    return val !== undefined
-      ? (this.blocks[blockId].values[index] = val)
-      : this.blocks[blockId].values[index]
+  addField<F extends string>(
+    name: F,
+    { counted = false }: { counted?: boolean } = {}
+  ): PointerSet<T, readonly [...K, F], R> {
+    // the first counted field also adds a slab for the counts
+    const bytes = counted && !this.counts ? 8 : 4
+    this.checkNewField(name, this.blockSize * bytes)
+    const root = this.blocks[0]
+    const names = this.names as Record<string, FieldId>
+    names[name] = root.fields.length as FieldId
+    this.countedFields.push(counted)
+    for (const block of this.blocks) {
+      block.fields.push(new Uint32Array(this.blockSize))
+      if (counted && !block.counts) {
+        block.counts = new Uint32Array(this.blockSize)
+      }
+    }
+    return root as unknown as PointerSet<T, readonly [...K, F], R>
   }
 
   /**
-   * Drop block from the set, or `wipeBlock()` if the root block.
-   * Only allowed on the last block in the stack.
+   * Add a raw field to the set, declared the same way as in the
+   * `rawFields` list, with a zeroed slab in every block.
+   *
+   * Returns the set, typed with the new field added to `R`.
+   *
+   * Not allowed on shared sets.
    */
-  drop() {
-    if (this.blockId !== this.blocks.length - 1) {
-      throw new Error('only the final block may be dropped')
+  addRawField<
+    N extends string,
+    Y extends RawType | 'bytes' = 'uint32',
+    W extends number = 1
+  >(
+    spec: N | readonly [N, Y] | readonly [N, Y, W]
+  ): PointerSet<T, K, readonly [...R, AddedRawSpec<N, Y, W>]> {
+    const [f, type, width] = parseRawSpec(spec as RawFieldSpec)
+    this.checkNewField(
+      f,
+      this.blockSize * width * rawArrays[type].BYTES_PER_ELEMENT
+    )
+    const root = this.blocks[0]
+    if (type === 'bytes' && !root.arena) {
+      root.arena = new Arena()
+      for (const block of this.blocks) {
+        block.arena = root.arena
+      }
     }
-    if (this.blockId === 0) {
-      this.wipeBlock()
-    } else {
-      this.blocksAvail.delete(this)
-      this.blocks.pop()
+    const names = this.names as Record<string, FieldId>
+    names[f] = ~root.rawFields.length as FieldId
+    this.rawTypes.push(type)
+    this.rawWidths.push(width)
+    for (const block of this.blocks) {
+      const slab = rawSlab(type, this.blockSize * width, false)
+      block.rawFields.push(slab.fill(rawZero(slab)))
     }
+    return root as unknown as PointerSet<
+      T,
+      K,
+      readonly [...R, AddedRawSpec<N, Y, W>]
+    >
   }
 
   /**
-   * Pop any empty blocks off the end of the stack.
+   * Remove a pointer or raw field from the set, and release its slabs.
+   * The ids of the fields after it move down to fill the gap. If the
+   * field is counted, then the refs in it are released, which frees
+   * the entries that are no longer referenced. If it is a bytes
+   * field, its data is left as garbage in the arena.
+   *
+   * Returns the set, typed without the removed field.
+   *
+   * Not allowed on shared sets.
    */
-  dropEmpty(): void {
-    const blocks = this.blocks
-    for (let i = this.blocks.length - 1; i > 0; i--) {
-      if (blocks[i].entryCount(i) === 0) {
-        blocks[i].drop()
+  removeField<F extends FieldName<K> | RawFieldName<R>>(
+    name: F
+  ): PointerSet<
+    T,
+    readonly Exclude<K[number], F>[],
+    readonly Exclude<R[number], F | readonly [F, ...unknown[]]>[]
+  > {
+    if (this.shared) {
+      throw new TypeError('cannot change the fields of a shared set')
+    }
+    const names = this.names as Record<string, FieldId>
+    const fieldId = names[name]
+    if (fieldId === undefined) {
+      throw errUnknownField(name)
+    }
+    const pending: Pointer[] = []
+    if (fieldId >= 0) {
+      for (const block of this.blocks) {
+        if (this.countedFields[fieldId]) {
+          const slab = block.fields[fieldId]
+          for (let i = block.firstNextFree; i < block.nextFree; i++) {
+            if (slab[i] && block.isLive(i as Index)) {
+              pending.push(slab[i] as Pointer)
+            }
+          }
+        }
+        block.fields.splice(fieldId, 1)
+      }
+      this.countedFields.splice(fieldId, 1)
+    } else {
+      const rawId = ~fieldId
+      for (const block of this.blocks) {
+        if (this.rawTypes[rawId] === 'bytes') {
+          for (let i = block.firstNextFree; i < block.nextFree; i++) {
+            if (block.isLive(i as Index)) {
+              block.writeBytes(rawId, i as Index)
+            }
+          }
+        }
+        block.rawFields.splice(rawId, 1)
+      }
+      this.rawTypes.splice(rawId, 1)
+      this.rawWidths.splice(rawId, 1)
+    }
+    // pointer ids count up from 0, and raw ids count down from -1
+    delete names[name]
+    for (const [f, id] of Object.entries(names)) {
+      if (fieldId >= 0 ? id > fieldId : id < fieldId) {
+        names[f] = (fieldId >= 0 ? id - 1 : id + 1) as FieldId
       }
     }
+    if (pending.length) {
+      this.releaseRefs(pending)
+    }
+    return this.blocks[0] as unknown as PointerSet<
+      T,
+      readonly Exclude<K[number], F>[],
+      readonly Exclude<R[number], F | readonly [F, ...unknown[]]>[]
+    >
   }
 
   /**
-   * number of entries in a given block
+   * For internal use: throw if a field can't be added to the set, or
+   * if adding `bytes` to every block would go over `maxBytes`
    */
-  entryCount(blockId: number): number {
-    if (blockId !== this.blockId) {
-      return this.blocks[blockId].entryCount(blockId)
+  checkNewField(name: string, bytes: number): void {
+    if (this.shared) {
+      throw new TypeError('cannot change the fields of a shared set')
+    }
+    if (this.names[name as FieldName<K>] !== undefined) {
+      throw errFieldExists(name)
+    }
+    const { maxBytes } = this
+    if (
+      maxBytes !== undefined &&
+      (this.blockBytes() + bytes) * this.blocks.length > maxBytes
+    ) {
+      throw errOutOfMemory('maxBytes', maxBytes)
     }
-    return this.nextFree - this.freeList.length
   }
+
   /**
-   * number of available spaces in a given block
+   * Get a descriptor of the shared memory of every block in a set
+   * created with `shared: true`. The descriptor can be sent to another
+   * thread with `postMessage()`, and attached there with
+   * `PointerSet.attach()`.
    */
-  available(blockId: number): number {
-    if (blockId !== this.blockId) {
-      return this.blocks[blockId].available(blockId)
+  share(): SharedPointerSetDescriptor {
+    const [fields, rawFields] = this.fieldLists()
+    return {
+      concurrent: this.concurrent,
+      generations: this.generations,
+      valueless: this.valueless,
+      blockSize: this.blockSize,
+      fields,
+      rawFields,
+      counted: fields.filter((_, i) => this.countedFields[i]),
+      blocks: this.blocks.map(b => b.shareBlock()),
     }
-    return this.blockSize - this.entryCount(blockId)
   }
 
   /**
-   * Total number of entries in the entire PointerSet
-   * Note that it is always at least 1, because the root
-   * block's zero-entry is reserved for the nullPointer.
+   * Get a descriptor of the shared memory of this block.
    */
-  size(): number {
-    let size = 0
-    for (let i = 0; i < this.blocks.length; i++) {
-      size += this.blocks[i].entryCount(i)
+  shareBlock(): SharedBlockDescriptor {
+    if (!this.shared) {
+      throw new TypeError('PointerSet is not shared')
+    }
+    return {
+      blockId: this.blockId,
+      state: this.state.buffer as SharedArrayBuffer,
+      live: (this.live as Int32Array).buffer as SharedArrayBuffer,
+      gens: this.gens?.buffer as SharedArrayBuffer | undefined,
+      counts: this.counts?.buffer as SharedArrayBuffer | undefined,
+      freeList: this.freeList.data.buffer as SharedArrayBuffer,
+      fields: this.fields.map(f => f.buffer as SharedArrayBuffer),
+      rawFields: this.rawFields.map(f => f.buffer as SharedArrayBuffer),
     }
-    return size
   }
+
   /**
-   * Total number of available spaces in the entire PointerSet.
+   * Add a block created in another thread to this copy of a shared
+   * set. Attaching a block that is already in the set is a no-op.
+   *
+   * If blocks ahead of it have not been attached yet, then it is held
+   * until they are, and `undefined` is returned.
    */
-  totalAvailable(): number {
-    let available = 0
-    for (let i = 0; i < this.blocks.length; i++) {
-      available += this.blocks[i].available(i)
+  attachBlock(
+    block: SharedBlockDescriptor
+  ): PointerSetBlock<T, K, R> | undefined {
+    if (!this.shared) {
+      throw new TypeError('PointerSet is not shared')
+    }
+    if (block.blockId < this.blocks.length) {
+      return this.blocks[block.blockId]
+    }
+    const root = this.blocks[0]
+    if (block.blockId !== this.blocks.length) {
+      if (!root.pendingBlocks) {
+        root.pendingBlocks = new Map()
+      }
+      root.pendingBlocks.set(block.blockId, block)
+      return undefined
+    }
+    const attached = new PointerSetBlock<T, K, R>(
+      this.blocks,
+      this.blocksAvail,
+      this.names,
+      this.wordSize,
+      this.shift,
+      this.mask,
+      this.blockIdMask,
+      this.blockSize,
+      block
+    )
+    const next = root.pendingBlocks?.get(this.blocks.length)
+    if (next) {
+      root.pendingBlocks?.delete(next.blockId)
+      this.attachBlock(next)
     }
-    return available
+    return attached
   }
 
   /**
-   * Number of blocks in the PointerSet
+   * For internal use: use the shared memory in the descriptor as the
+   * storage for this block.
    */
-  blocksCount(): number {
-    return this.blocks.length
+  useSharedBlock(block: SharedBlockDescriptor): void {
+    this.state = new Int32Array(block.state)
+    this.live = new Int32Array(block.live)
+    if (block.gens) {
+      this.gens = new Uint32Array(block.gens)
+    }
+    if (block.counts) {
+      this.counts = new Uint32Array(block.counts)
+    }
+    this.freeList = new Stack(
+      this.blockSize <= max8
+        ? new Uint8Array(block.freeList)
+        : new Uint16Array(block.freeList),
+      this.state
+    )
+    this.fields = block.fields.map(f => new Uint32Array(f))
+    this.rawFields = block.rawFields.map(
+      (f, i) => new rawArrays[this.rawTypes[i]](f)
+    )
+    if (this.freeList.length || this.nextFree < this.blockSize) {
+      this.blocksAvail.add(this)
+    } else {
+      this.blocksAvail.delete(this)
+    }
   }
-
-  // TODO: drop empty blocks off the end, but retain at least X
-  // amount of free space, to efficiently compress to a given range.
-  // Need to track how much is free space is available in the
-  // entire set, which could be costly if done in a naive way,
-  // or buggy/dangerous if done in a clever way without care.
 }
 
 /**
@@ -842,7 +4083,7 @@ abstract class PointerSetBase<
 export class PointerSet<
     T extends PointerSetValueType,
     K extends readonly string[],
-    R extends readonly string[] = []
+    R extends readonly RawFieldSpec[] = []
   >
   extends PointerSetBase<T, K, R>
   implements PointerSetBlock<T, K, R>
@@ -852,13 +4093,25 @@ export class PointerSet<
   // zero-index item in the root block always empty
   // this lets us treat a ref of 0 as "null"
   values: (T | undefined)[] = [undefined]
-  nextFree: Index = 1 as Index
   blockId: BlockId = 0 as BlockId
   firstNextFree: FirstNextFree = 1 as FirstNextFree
 
+  state: Int32Array
+  live?: Int32Array
+  shared: boolean
+  concurrent: boolean
+  generations: boolean
+  gens?: Uint32Array
+  checked: boolean
+  valueless: boolean
+  countedFields: boolean[]
+  counts?: Uint32Array
   fields: Uint32Array[]
-  rawFields: Uint32Array[]
-  names: { [k in FieldName<K> | FieldName<R>]: FieldId }
+  rawFields: RawSlab[]
+  rawTypes: (RawType | 'bytes')[]
+  rawWidths: number[]
+  arena?: Arena
+  names: { [k in FieldName<K> | RawFieldName<R>]: FieldId }
   wordSize: WordSize
   shift: Shift
   mask: Mask
@@ -874,14 +4127,67 @@ export class PointerSet<
    * Public interface to create a PointerSet, also representing the
    * first block of data.
    */
-  constructor(fields: K, blockSize = 256, rawFields?: R) {
+  constructor(
+    fields: K,
+    blockSize = 256,
+    rawFields?: R,
+    options: PointerSetOptions = {}
+  ) {
     super()
     this.blockSize = blockSize as BlockSize
     const ws = getWordSize(this.blockSize)
     if (ws !== 1 && ws !== 2) {
       throw new TypeError('block size must be less than or equal to 65536')
     }
-    this.freeList = new Stack(this.blockSize)
+    const {
+      concurrent = false,
+      generations = false,
+      checked = false,
+      valueless = false,
+      counted = [],
+      onBlock,
+      onMissingBlocks,
+      maxEntries,
+      maxBytes,
+      onPressure,
+      evict,
+    } = options
+    const shared = concurrent || !!options.shared
+    this.shared = shared
+    this.concurrent = concurrent
+    this.generations = generations
+    this.checked = checked
+    this.valueless = valueless
+    this.onBlock = onBlock
+    this.onMissingBlocks = onMissingBlocks
+    if (maxEntries !== undefined || maxBytes !== undefined) {
+      if (concurrent) {
+        throw new TypeError(
+          'memory limits are not allowed in concurrent sets'
+        )
+      }
+      this.maxEntries = maxEntries
+      this.maxBytes = maxBytes
+      this.onPressure = onPressure
+      this.evict = evict
+    }
+    this.state = stateSlab(shared)
+    this.nextFree = this.firstNextFree
+    this.state[stateBlockCount] = 1
+    this.state[stateAvailable] = this.blockSize - this.firstNextFree
+    if (shared || valueless) {
+      this.live = liveSlab(blockSize, shared)
+    }
+    if (valueless) {
+      this.values = []
+    }
+    if (generations) {
+      this.gens = genSlab(this.blockSize, shared)
+    }
+    this.freeList = new Stack(
+      stackSlab(this.blockSize, shared),
+      this.state
+    )
     this.wordSize = ws
     this.shift = (this.wordSize === 1 ? 8 : 16) as Shift
     this.mask = (this.wordSize === 1 ? mask8 : mask16) as Mask
@@ -896,27 +4202,266 @@ export class PointerSet<
     for (const field of fields) {
       const f = field as FieldName<typeof fields>
       this.names[f] = this.fields.length as FieldId
-      const slab = unsafeUint32Array(this.blockSize)
+      const slab = uint32Slab(this.blockSize, shared)
       // init null pointer
       slab[0] = 0
       this.fields.push(slab)
     }
 
-    // just plain old uint32 fields
+    // just plain old uint32 fields, or another type if specified
     this.rawFields = []
+    this.rawTypes = []
+    this.rawWidths = []
     if (rawFields) {
       for (const rawField of rawFields) {
-        const f = rawField as FieldName<typeof rawFields>
+        const [name, type, width] = parseRawSpec(rawField)
+        const f = name as RawFieldName<R>
         if (fields.includes(f)) {
           throw new Error(`invalid raw field ${f}, specified in ${fields}`)
         }
+        if (type === 'bytes') {
+          if (shared) {
+            throw new TypeError(
+              'bytes fields are not allowed in shared sets'
+            )
+          }
+          if (!this.arena) {
+            this.arena = new Arena()
+          }
+        }
         this.names[f] = ~this.rawFields.length as FieldId
-        const slab = unsafeUint32Array(this.blockSize)
+        const slab = rawSlab(type, this.blockSize * width, shared)
         // init null pointer
-        slab[0] = 0
+        slab.fill(rawZero(slab), 0, width)
         this.rawFields.push(slab)
+        this.rawTypes.push(type)
+        this.rawWidths.push(width)
+      }
+    }
+
+    // fields that count references to the entries in them
+    this.countedFields = this.fields.map(() => false)
+    for (const f of counted) {
+      const fieldId = this.names[f as FieldName<K>]
+      if (fieldId === undefined) {
+        throw errUnknownPointerField(f)
+      }
+      if (fieldId < 0) {
+        throw errRawAsPointer(f)
+      }
+      this.countedFields[fieldId] = true
+    }
+    if (counted.length) {
+      if (concurrent) {
+        throw new TypeError(
+          'counted fields are not allowed in concurrent sets'
+        )
+      }
+      this.counts = uint32Slab(this.blockSize, shared)
+    }
+  }
+
+  /**
+   * Attach to a shared PointerSet created in another thread, using the
+   * descriptor returned by its `share()` method.
+   *
+   * Values are not shared between threads. Only the refs and raw data
+   * stored in the slabs are visible to all threads.
+   */
+  static attach<
+    T extends PointerSetValueType,
+    K extends readonly string[],
+    R extends readonly RawFieldSpec[] = []
+  >(
+    desc: SharedPointerSetDescriptor,
+    options: PointerSetOptions = {}
+  ): PointerSet<T, K, R> {
+    const store = new PointerSet<T, K, R>(
+      desc.fields as unknown as K,
+      desc.blockSize,
+      desc.rawFields as unknown as R,
+      {
+        ...options,
+        shared: true,
+        concurrent: desc.concurrent,
+        generations: desc.generations,
+        valueless: desc.valueless,
+        counted: desc.counted,
+      }
+    )
+    store.useSharedBlock(desc.blocks[0])
+    for (let i = 1; i < desc.blocks.length; i++) {
+      store.attachBlock(desc.blocks[i])
+    }
+    return store
+  }
+
+  /**
+   * Load a PointerSet from a snapshot created by `toBuffer()`.
+   *
+   * Values are read with the supplied `codec`, which must match the
+   * one used to write the snapshot. Defaults to `nullCodec`, for sets
+   * where T is `null`.
+   *
+   * The `options` are passed to the PointerSet constructor, except
+   * for `generations`, `valueless`, and `counted`, which are taken
+   * from the snapshot.
+   */
+  static fromBuffer<
+    T extends PointerSetValueType,
+    K extends readonly string[],
+    R extends readonly RawFieldSpec[] = []
+  >(
+    buf: Uint8Array,
+    codec: ValueCodec<T> = nullCodec as ValueCodec<any>,
+    options: PointerSetOptions = {}
+  ): PointerSet<T, K, R> {
+    const dv = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+    let offset = 0
+    const read = (byteLength: number): Uint8Array => {
+      if (offset + byteLength > buf.byteLength) {
+        throw errInvalidSnapshot('unexpected end of data')
+      }
+      const bytes = buf.subarray(offset, offset + byteLength)
+      offset += align4(byteLength)
+      return bytes
+    }
+    const readUint32 = (): number => {
+      if (offset + 4 > buf.byteLength) {
+        throw errInvalidSnapshot('unexpected end of data')
+      }
+      const n = dv.getUint32(offset, true)
+      offset += 4
+      return n
+    }
+
+    const magic = String.fromCharCode(...read(4))
+    if (magic !== snapshotMagic) {
+      throw errInvalidSnapshot('bad magic bytes')
+    }
+    const version = readUint32()
+    if (version !== snapshotVersion) {
+      throw errInvalidSnapshot('unsupported version ' + version)
+    }
+    const json = new TextDecoder().decode(read(readUint32()))
+    let header: SnapshotHeader
+    try {
+      header = JSON.parse(json)
+    } catch {
+      throw errInvalidSnapshot('header is not valid JSON')
+    }
+    if (
+      !header ||
+      typeof header !== 'object' ||
+      !Array.isArray(header.blocks) ||
+      !header.blocks.length ||
+      header.blocks.some(b => !b || typeof b !== 'object') ||
+      !Array.isArray(header.fields) ||
+      !Array.isArray(header.rawFields)
+    ) {
+      throw errInvalidSnapshot('invalid header')
+    }
+    const { blockSize } = header
+    if (
+      !Number.isInteger(blockSize) ||
+      blockSize < 1 ||
+      blockSize > max16
+    ) {
+      throw errInvalidSnapshot('invalid block size ' + blockSize)
+    }
+    const isName = (f: unknown) => typeof f === 'string'
+    if (
+      !header.fields.every(isName) ||
+      !header.rawFields.every(f => isName(Array.isArray(f) ? f[0] : f)) ||
+      (header.counted !== undefined &&
+        !(Array.isArray(header.counted) && header.counted.every(isName)))
+    ) {
+      throw errInvalidSnapshot('invalid field names')
+    }
+    if (header.littleEndian !== littleEndian) {
+      throw errInvalidSnapshot('byte order does not match this platform')
+    }
+
+    const store = new PointerSet<T, K, R>(
+      header.fields as unknown as K,
+      header.blockSize,
+      header.rawFields as unknown as R,
+      {
+        ...options,
+        generations: !!header.generations,
+        valueless: !!header.valueless,
+        counted: header.counted,
+      }
+    )
+    if (store.wordSize !== header.wordSize) {
+      throw errInvalidSnapshot('word size does not match block size')
+    }
+    const slabBytes = store.blockSize * 4
+    const copy = (data: ArrayBufferView, byteLength: number) => {
+      new Uint8Array(data.buffer, data.byteOffset, byteLength).set(
+        read(byteLength)
+      )
+    }
+    for (let b = 0; b < header.blocks.length; b++) {
+      const { nextFree, freeCount } = header.blocks[b]
+      const block = b === 0 ? store : store.newBlock()
+      if (
+        !Number.isInteger(nextFree) ||
+        !Number.isInteger(freeCount) ||
+        freeCount < 0 ||
+        nextFree < block.firstNextFree ||
+        nextFree > store.blockSize ||
+        freeCount > nextFree - block.firstNextFree
+      ) {
+        throw errInvalidSnapshot('invalid free space in block ' + b)
+      }
+      for (const slab of block.fields) {
+        copy(slab, slabBytes)
+      }
+      for (const slab of block.rawFields) {
+        copy(slab, slab.byteLength)
+      }
+      if (block.gens) {
+        copy(block.gens, slabBytes)
       }
+      if (block.counts) {
+        copy(block.counts, slabBytes)
+      }
+      copy(block.freeList.data, freeCount * store.wordSize)
+      block.freeList.length = freeCount
+      block.nextFree = nextFree as Index
+
+      // everything below nextFree that is not in the free list is live
+      const free = new Uint8Array(nextFree)
+      for (let i = 0; i < freeCount; i++) {
+        const index = block.freeList.data[i]
+        if (index >= nextFree || index < block.firstNextFree) {
+          throw errInvalidSnapshot('invalid free list in block ' + b)
+        }
+        free[index] = 1
+      }
+      for (let i = block.firstNextFree; i < nextFree; i++) {
+        if (store.valueless) {
+          block.setLive(i as Index, !free[i])
+        } else if (free[i]) {
+          block.values.push(undefined)
+        } else {
+          block.values.push(codec.decode(read(readUint32())))
+          block.setLive(i as Index, true)
+        }
+      }
+      if (!freeCount && nextFree >= store.blockSize) {
+        store.blocksAvail.delete(block)
+      }
+    }
+    if (store.arena && header.arena) {
+      const { length, garbage } = header.arena
+      store.arena.data.set(read(length), store.arena.alloc(length))
+      store.arena.garbage = garbage
     }
+    store.state[stateBlockCount] = store.blocks.length
+    store.countAvailable()
+    return store
   }
 }
 
@@ -930,30 +4475,42 @@ export class PointerSet<
 export class PointerSetBlock<
     T extends PointerSetValueType,
     K extends readonly string[],
-    R extends readonly string[] = []
+    R extends readonly RawFieldSpec[] = []
   >
   extends PointerSetBase<T, K, R>
   implements PointerSet<T, K, R>
 {
   // set unique for each block
-  nextFree: Index = 0 as Index
   firstNextFree: FirstNextFree = 0 as FirstNextFree
   values: (T | undefined)[] = []
   freeList: Stack
   blockId: BlockId
+  state: Int32Array
+  live?: Int32Array
+  gens?: Uint32Array
+  counts?: Uint32Array
   fields: Uint32Array[]
-  rawFields: Uint32Array[]
+  rawFields: RawSlab[]
   shiftDownFix: ShiftDownFix
 
   // set to match parent block
+  rawTypes: (RawType | 'bytes')[]
+  rawWidths: number[]
+  arena?: Arena
   blocks: PointerSetBlock<T, K, R>[]
   blocksAvail: Set<PointerSetBlock<T, K, R>>
-  names: { [k in FieldName<K> | FieldName<R>]: FieldId }
+  names: { [k in FieldName<K> | RawFieldName<R>]: FieldId }
   wordSize: WordSize
   shift: Shift
   mask: Mask
   blockIdMask: BlockIdMask
   blockSize: BlockSize
+  shared: boolean
+  concurrent: boolean
+  generations: boolean
+  checked: boolean
+  valueless: boolean
+  countedFields: boolean[]
 
   /**
    * Class representing an expanded block in a PointerSet data store.
@@ -965,12 +4522,13 @@ export class PointerSetBlock<
   constructor(
     blocks: PointerSetBlock<T, K, R>[],
     blocksAvail: Set<PointerSetBlock<T, K, R>>,
-    names: { [k in FieldName<K> | FieldName<R>]: FieldId },
+    names: { [k in FieldName<K> | RawFieldName<R>]: FieldId },
     wordSize: WordSize,
     shift: Shift,
     mask: Mask,
     blockIdMask: BlockIdMask,
-    blockSize: BlockSize
+    blockSize: BlockSize,
+    sharedBlock?: SharedBlockDescriptor
   ) {
     super()
     this.blocks = blocks
@@ -997,16 +4555,324 @@ export class PointerSetBlock<
     /* c8 ignore stop */
     this.blocksAvail.add(this)
 
-    this.freeList = new Stack(this.blockSize)
+    const shared = (this.shared = this.blocks[0].shared)
+    this.concurrent = this.blocks[0].concurrent
+    this.generations = this.blocks[0].generations
+    this.checked = this.blocks[0].checked
+    this.valueless = this.blocks[0].valueless
+    this.countedFields = this.blocks[0].countedFields
+    this.rawTypes = this.blocks[0].rawTypes
+    this.rawWidths = this.blocks[0].rawWidths
+    this.arena = this.blocks[0].arena
+    this.state = stateSlab(shared)
+    this.freeList = new Stack(
+      stackSlab(this.blockSize, shared),
+      this.state
+    )
     this.fields = []
+    this.rawFields = []
+    if (sharedBlock) {
+      // the thread that created it has already counted its space
+      this.useSharedBlock(sharedBlock)
+      return
+    }
+    this.addAvailable(blockSize)
+    if (shared || this.valueless) {
+      this.live = liveSlab(blockSize, shared)
+    }
+    if (this.generations) {
+      // carry on from the generations of a dropped block with this id
+      const dropped = this.blocks[0].droppedGens
+      this.gens =
+        dropped?.get(this.blockId) || genSlab(this.blockSize, shared)
+      dropped?.delete(this.blockId)
+    }
+    if (this.blocks[0].counts) {
+      this.counts = uint32Slab(this.blockSize, shared)
+    }
     for (let i = 0; i < this.blocks[0].fields.length; i++) {
-      this.fields.push(unsafeUint32Array(this.blockSize))
+      this.fields.push(uint32Slab(this.blockSize, shared))
     }
-    this.rawFields = []
-    for (let i = 0; i < this.blocks[0].rawFields.length; i++) {
-      this.rawFields.push(unsafeUint32Array(this.blockSize))
+    for (let i = 0; i < this.rawTypes.length; i++) {
+      this.rawFields.push(
+        rawSlab(
+          this.rawTypes[i],
+          this.blockSize * this.rawWidths[i],
+          shared
+        )
+      )
+    }
+  }
+}
+
+// `Symbol.dispose`, so that scopes can be used with `using` where the
+// platform supports it
+const disposeSymbol: symbol =
+  (Symbol as { dispose?: symbol }).dispose ?? Symbol.for('Symbol.dispose')
+
+/**
+ * Class representing a group of entries in a PointerSet that are freed
+ * together, returned by `store.scope()`.
+ *
+ * Entries allocated with the scope's `alloc()` and `allocMany()` are
+ * freed when the scope is disposed, unless they are removed from it
+ * with `keep()` first.
+ */
+export class PointerScope<
+  T extends PointerSetValueType,
+  K extends readonly string[],
+  R extends readonly RawFieldSpec[] = []
+> {
+  store: PointerSetBase<T, K, R>
+  pointers: Set<Pointer> = new Set()
+
+  constructor(store: PointerSetBase<T, K, R>) {
+    this.store = store
+  }
+
+  /**
+   * Allocate an entry in the store, which is freed along with the
+   * scope. Same arguments as `store.alloc()`.
+   */
+  alloc(value: T, refs?: RefSet<K>, raw?: RawSet<R>): Pointer {
+    const pointer = this.store.alloc(value, refs, raw)
+    this.pointers.add(pointer)
+    return pointer
+  }
+
+  /**
+   * Allocate many entries in the store, which are freed along with the
+   * scope. Same arguments and return value as `store.allocMany()`.
+   */
+  allocMany(
+    count: number,
+    init?: AllocManyInit<T, K, R>
+  ): PointerRange | Uint32Array | Float64Array {
+    const ptrs = this.store.allocMany(count, init)
+    if ('start' in ptrs) {
+      for (let p = ptrs.start; p < ptrs.end; p++) {
+        this.pointers.add(p as Pointer)
+      }
+    } else {
+      for (const p of ptrs) {
+        this.pointers.add(p as Pointer)
+      }
+    }
+    return ptrs
+  }
+
+  /**
+   * Remove an entry from the scope, so that it is not freed when the
+   * scope is disposed. Returns false if it was not in the scope.
+   */
+  keep(pointer: Pointer): boolean {
+    return this.pointers.delete(pointer)
+  }
+
+  /**
+   * Free every entry allocated through the scope that has not been
+   * kept, newest first, and empty the scope. Entries that were already
+   * freed some other way are skipped. Returns the number freed.
+   */
+  dispose(): number {
+    const { store } = this
+    const ptrs = [...this.pointers]
+    this.pointers.clear()
+    let freed = 0
+    for (let i = ptrs.length - 1; i >= 0; i--) {
+      if (store.isAllocated(ptrs[i])) {
+        store.free(ptrs[i])
+        freed++
+      }
+    }
+    return freed
+  }
+
+  /**
+   * Same as `dispose()`
+   */
+  [disposeSymbol](): number {
+    return this.dispose()
+  }
+}
+
+/**
+ * Compare two PointerSets with the same fields and block size, slot
+ * by slot, and report the entries that were added, freed, or changed
+ * from `a` to `b`. Either one may be a snapshot from
+ * `store.toBuffer()`, which is loaded with the `codec` option.
+ *
+ * In sets with `generations: true`, a slot that was freed and
+ * allocated again is reported as both freed and added. Values are
+ * not compared if either set is valueless.
+ *
+ * Two sets are the same if every list in the result is empty.
+ */
+export const diff = <
+  T extends PointerSetValueType,
+  K extends readonly string[],
+  R extends readonly RawFieldSpec[] = []
+>(
+  a: PointerSet<T, K, R> | Uint8Array,
+  b: PointerSet<T, K, R> | Uint8Array,
+  { codec, equal = (x: T, y: T) => x === y }: DiffOptions<T> = {}
+): PointerSetDiff<T, K, R> => {
+  if (a instanceof Uint8Array) {
+    a = PointerSet.fromBuffer<T, K, R>(a, codec)
+  }
+  if (b instanceof Uint8Array) {
+    b = PointerSet.fromBuffer<T, K, R>(b, codec)
+  }
+  const sa = a
+  const sb = b
+  if (sa.blockSize !== sb.blockSize) {
+    throw new TypeError('cannot diff sets with different block sizes')
+  }
+  // the ids of a's fields in b, by name
+  const fields: [string, FieldId, FieldId][] = []
+  const raws: [string, number, number][] = []
+  const namesB = sb.names as Record<string, FieldId>
+  for (const [f, id] of Object.entries(sa.names) as [string, FieldId][]) {
+    const idB = namesB[f]
+    if (
+      idB === undefined ||
+      id < 0 !== idB < 0 ||
+      (id < 0 &&
+        (sa.rawTypes[~id] !== sb.rawTypes[~idB] ||
+          sa.rawWidths[~id] !== sb.rawWidths[~idB]))
+    ) {
+      throw errIncompatibleField(f)
+    }
+    if (id < 0) {
+      raws.push([f, ~id, ~idB])
+    } else {
+      fields.push([f, id, idB])
+    }
+  }
+  for (const f of Object.keys(sb.names)) {
+    if (!(f in sa.names)) {
+      throw errIncompatibleField(f)
+    }
+  }
+
+  const tag = (s: PointerSet<T, K, R>, p: Pointer) =>
+    s.gens ? s.tagGen(p) : p
+  // the value of a raw field, copied out of the set
+  const rawValue = (
+    block: PointerSetBlock<T, K, R>,
+    rawId: number,
+    index: Index
+  ) => {
+    const w = block.rawWidths[rawId]
+    const slab = block.rawFields[rawId]
+    return block.rawTypes[rawId] === 'bytes'
+      ? block.bytesAt(rawId, index).slice()
+      : w === 1
+      ? slab[index]
+      : slab.slice(index * w, index * w + w)
+  }
+  // the bytes of a raw field, so that NaN and -0 compare exactly
+  const rawBytes = (
+    block: PointerSetBlock<T, K, R>,
+    rawId: number,
+    index: Index
+  ): Uint8Array => {
+    if (block.rawTypes[rawId] === 'bytes') {
+      return block.bytesAt(rawId, index)
+    }
+    const slab = block.rawFields[rawId]
+    const size = block.rawWidths[rawId] * slab.BYTES_PER_ELEMENT
+    return new Uint8Array(
+      slab.buffer,
+      slab.byteOffset + index * size,
+      size
+    )
+  }
+  const sameBytes = (x: Uint8Array, y: Uint8Array): boolean => {
+    if (x.length !== y.length) {
+      return false
+    }
+    for (let i = 0; i < x.length; i++) {
+      if (x[i] !== y[i]) {
+        return false
+      }
+    }
+    return true
+  }
+  const values = !sa.valueless && !sb.valueless
+
+  const result: PointerSetDiff<T, K, R> = {
+    added: [],
+    freed: [],
+    changed: [],
+  }
+  const blocks = Math.max(sa.blocks.length, sb.blocks.length)
+  for (let blockId = 0; blockId < blocks; blockId++) {
+    const ba = sa.blocks[blockId]
+    const bb = sb.blocks[blockId]
+    const start = blockId === 0 ? 1 : 0
+    const end = Math.max(ba?.nextFree ?? 0, bb?.nextFree ?? 0)
+    for (let i = start; i < end; i++) {
+      const index = i as Index
+      const p = sa.getPointer(blockId as BlockId, index)
+      const liveA = !!ba && index < ba.nextFree && ba.isLive(index)
+      const liveB = !!bb && index < bb.nextFree && bb.isLive(index)
+      const pa = liveA ? tag(sa, p) : p
+      const pb = liveB ? tag(sb, p) : p
+      if (liveA && liveB && sa.gens && sb.gens && pa !== pb) {
+        result.freed.push(pa)
+        result.added.push(pb)
+        continue
+      }
+      if (!liveB) {
+        if (liveA) {
+          result.freed.push(pa)
+        }
+        continue
+      }
+      if (!liveA) {
+        result.added.push(pb)
+        continue
+      }
+
+      const entry: EntryDiff<T, K, R> = { pointer: pb, refs: {}, raw: {} }
+      let changed = false
+      for (const [f, id, idB] of fields) {
+        const ra = ba.fields[id][index] as Pointer
+        const rb = bb.fields[idB][index] as Pointer
+        if (ra !== rb) {
+          changed = true
+          ;(entry.refs as Record<string, [Pointer, Pointer]>)[f] = [
+            tag(sa, ra),
+            tag(sb, rb),
+          ]
+        }
+      }
+      for (const [f, id, idB] of raws) {
+        if (
+          !sameBytes(rawBytes(ba, id, index), rawBytes(bb, idB, index))
+        ) {
+          changed = true
+          ;(entry.raw as Record<string, unknown>)[f] = [
+            rawValue(ba, id, index),
+            rawValue(bb, idB, index),
+          ]
+        }
+      }
+      if (values) {
+        const va = ba.values[index] as T
+        const vb = bb.values[index] as T
+        if (!equal(va, vb)) {
+          changed = true
+          entry.value = [va, vb]
+        }
+      }
+      if (changed) {
+        result.changed.push(entry)
+      }
     }
   }
+  return result
 }
 
 /**
@@ -1020,12 +4886,13 @@ export class PointerSetBlock<
  */
 export const pointerSetInfer =
   <T extends PointerSetValueType>() =>
-  <K extends readonly string[], R extends readonly string[] = []>(
+  <K extends readonly string[], R extends readonly RawFieldSpec[] = []>(
     fields: K,
     blockSize?: number,
-    rawFields?: R
+    rawFields?: R,
+    options?: PointerSetOptions
   ) =>
-    new PointerSet<T, K, R>(fields, blockSize, rawFields)
+    new PointerSet<T, K, R>(fields, blockSize, rawFields, options)
 
 /**
  * Helper method for generating a class that infers the field and rawField
@@ -1039,7 +4906,7 @@ export const pointerSetInfer =
  */
 export const PointerSetInferFields = <
   K extends readonly string[],
-  R extends readonly string[] = []
+  R extends readonly RawFieldSpec[] = []
 >(
   fields: K,
   rawFields?: R
@@ -1047,7 +4914,7 @@ export const PointerSetInferFields = <
   class PointerSetInferFields<
     T extends PointerSetValueType
   > extends PointerSet<T, K, R> {
-    constructor(blockSize?: number) {
-      super(fields, blockSize, rawFields)
+    constructor(blockSize?: number, options?: PointerSetOptions) {
+      super(fields, blockSize, rawFields, options)
     }
   }
@@ -0,0 +1,191 @@
+import t from 'tap'
+import {
+  errPointerAsRaw,
+  errRawAsPointer,
+  errUnknownPointerField,
+  errUnknownRawField,
+  Pointer,
+  PointerRange,
+  PointerSet,
+} from '../'
+
+const f = ['next', 'prev'] as const
+const r = ['n', ['name', 'bytes'], ['vec', 'float32', 2]] as const
+
+t.test('consecutive entries come back as a range', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 16, r)
+  const range = store.allocMany(5) as PointerRange
+  t.same(range, { start: 1, end: 6 })
+  t.equal(store.size(), 6)
+  t.equal(store.totalAvailable(), 10)
+  for (let p = range.start; p < range.end; p++) {
+    t.equal(store.value(p as Pointer), null, 'no value is null')
+    t.same(store.refAll(p as Pointer), { next: 0, prev: 0 })
+  }
+  t.same(store.allocMany(0), new Uint32Array(0))
+
+  // spills into new blocks, and the pointers are still consecutive
+  // only if the block size is a whole pointer segment
+  const ptrs = store.allocMany(20) as Uint32Array
+  t.type(ptrs, Uint32Array)
+  t.equal(ptrs.length, 20)
+  t.equal(store.blocksCount(), 2)
+  t.equal(ptrs[9], 15)
+  t.equal(ptrs[10], 256)
+  t.equal(store.totalAvailable(), 6)
+  t.equal(store.alloc('x'), 266, 'next alloc after the bulk ones')
+
+  // freed entries are used first, and their old data is cleared
+  store.ref(ptrs[3] as Pointer, 'next', ptrs[4] as Pointer)
+  store.raw(ptrs[3] as Pointer, 'n', 7)
+  store.setBytes(ptrs[3] as Pointer, 'name', 'hello')
+  store.free(ptrs[3] as Pointer)
+  store.free(ptrs[1] as Pointer)
+  const reused = store.allocMany(3) as Uint32Array
+  t.same([...reused], [ptrs[1], ptrs[3], 267])
+  t.same(store.refAll(ptrs[3] as Pointer), { next: 0, prev: 0 })
+  t.same(store.rawAll(ptrs[3] as Pointer), {
+    n: 0,
+    name: new Uint8Array(0),
+    vec: new Float32Array(2),
+  })
+
+  const big = new PointerSet<null, typeof f>(f, 256)
+  t.same(big.allocMany(300), { start: 1, end: 301 }, 'across blocks')
+  t.equal(big.blocksCount(), 2)
+})
+
+t.test('column arrays', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r, {
+    counted: ['next'],
+  })
+  const head = store.alloc('head')
+  const ptrs = store.allocMany(5, {
+    values: ['a', 'b', 'c'],
+    refs: { next: [head, head], prev: new Uint32Array([0, 0, head]) },
+    raw: {
+      n: new Uint32Array([1, 2, 3, 4, 5]),
+      name: ['one', new Uint8Array([2])],
+      vec: [[1.5], [], [2, 3]],
+    },
+  }) as Uint32Array
+  t.same(
+    [...ptrs].map(p => store.value(p as Pointer)),
+    ['a', 'b', 'c', null, null]
+  )
+  t.equal(store.ref(ptrs[0] as Pointer, 'next'), head)
+  t.equal(store.ref(ptrs[2] as Pointer, 'next'), 0)
+  t.equal(store.ref(ptrs[2] as Pointer, 'prev'), head)
+  t.equal(store.refCount(head), 2, 'counted fields are counted')
+  t.same(
+    [...ptrs].map(p => store.raw(p as Pointer, 'n')),
+    [1, 2, 3, 4, 5]
+  )
+  t.equal(store.getString(ptrs[0] as Pointer, 'name'), 'one')
+  t.same(store.getBytes(ptrs[1] as Pointer, 'name'), new Uint8Array([2]))
+  t.same([...store.rawView(ptrs[0] as Pointer, 'vec')], [1.5, 0])
+  t.same([...store.rawView(ptrs[2] as Pointer, 'vec')], [2, 3])
+
+  // bad names fail before anything is allocated
+  const size = store.size()
+  t.throws(
+    () =>
+      //@ts-expect-error
+      store.allocMany(2, { refs: { nope: [] } }),
+    errUnknownPointerField('nope')
+  )
+  t.throws(
+    () =>
+      //@ts-expect-error
+      store.allocMany(2, { refs: { n: [] } }),
+    errRawAsPointer('n')
+  )
+  t.throws(
+    () =>
+      //@ts-expect-error
+      store.allocMany(2, { raw: { nope: [] } }),
+    errUnknownRawField('nope')
+  )
+  t.throws(
+    () =>
+      //@ts-expect-error
+      store.allocMany(2, { raw: { next: [] } }),
+    errPointerAsRaw('next')
+  )
+  t.equal(store.size(), size)
+
+  // so does a bad count
+  for (const count of [1.5, -1, NaN, Infinity]) {
+    t.throws(
+      () => store.allocMany(count),
+      RangeError('invalid count: ' + count)
+    )
+  }
+  t.equal(store.size(), size)
+})
+
+t.test('init function', async t => {
+  const store = new PointerSet<number, typeof f, typeof r>(f, 16, r, {
+    counted: ['next'],
+  })
+  const ptrs = store.allocMany(6, (i, p, pointers) => {
+    // every entry is allocated before this is called, so entries
+    // in a batch can refer to the ones after them
+    t.equal(pointers[i], p)
+    if (i < 5) {
+      store.ref(p, 'next', pointers[i + 1] as Pointer)
+    }
+    return i % 2 ? i * 10 : undefined
+  }) as PointerRange
+  t.same(ptrs, { start: 1, end: 7 })
+  const values: (number | undefined)[] = []
+  for (let p = ptrs.start; p < ptrs.end; p++) {
+    values.push(store.value(p as Pointer))
+  }
+  t.same(values, [null, 10, null, 30, null, 50])
+  t.equal(store.refCount(6 as Pointer), 1)
+  t.equal(store.ref(5 as Pointer, 'next'), 6)
+
+  // values are ignored in valueless sets
+  const valueless = new PointerSet<number, typeof f>(f, 4, [], {
+    valueless: true,
+  })
+  const v = valueless.allocMany(3, i => i) as PointerRange
+  valueless.allocMany(3, { values: [1, 2, 3] })
+  t.same(valueless.values, [])
+  t.same([...valueless.pointers()].length, 6)
+  t.equal(valueless.value(v.start), undefined)
+})
+
+t.test('generations, shared and concurrent sets', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    generations: true,
+  })
+  const a = store.alloc(null)
+  const b = store.alloc(null)
+  store.free(a)
+  const ptrs = store.allocMany(3, { refs: { next: [0, 0, b] } })
+  t.type(ptrs, Float64Array, 'handles do not fit in 32 bits')
+  const handles = ptrs as Float64Array
+  t.not(handles[0], a, 'new generation')
+  t.equal(store.getIndex(handles[0] as Pointer), store.getIndex(a))
+  t.equal(store.value(handles[0] as Pointer), null)
+  t.equal(store.ref(handles[2] as Pointer, 'next'), b)
+  t.throws(() => store.allocMany(1, { refs: { next: [a] } }))
+
+  const conc = new PointerSet<null, typeof f>(f, 4, [], {
+    concurrent: true,
+  })
+  const other = PointerSet.attach<null, typeof f>(conc.share())
+  t.same([...(conc.allocMany(6) as Uint32Array)], [1, 2, 3, 256, 257, 258])
+  t.equal(other.totalAvailable(), 1)
+  t.throws(() => other.allocMany(1), {
+    message:
+      'cannot grow concurrent set until blocks created by other ' +
+      'threads are attached',
+  })
+  other.attachBlock(conc.blocks[1].shareBlock())
+  t.same(other.allocMany(1), { start: 259, end: 260 })
+  t.same(conc.allocMany(2), { start: 512, end: 514 })
+  t.equal(other.totalAvailable(), 2)
+})
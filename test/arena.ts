@@ -0,0 +1,213 @@
+import t from 'tap'
+import {
+  errBytesField,
+  errNotBytesField,
+  errStalePointer,
+  errUnknownRawField,
+  Pointer,
+  PointerSet,
+} from '../'
+
+const f = ['next'] as const
+const r = [['name', 'bytes'], ['data', 'bytes'], 'n'] as const
+
+t.test('bytes fields', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  t.same(store.rawTypes, ['bytes', 'bytes', 'uint32'])
+  const arena = store.arena as NonNullable<typeof store.arena>
+  t.equal(arena.length, 0)
+
+  const a = store.alloc(null, {}, { name: 'hello', n: 1 })
+  const b = store.alloc(null)
+  t.equal(store.getString(a, 'name'), 'hello')
+  t.same(store.getBytes(a, 'name'), new TextEncoder().encode('hello'))
+  t.equal(store.getString(a, 'data'), '', 'unset is empty')
+  t.same(store.getBytes(b, 'name'), new Uint8Array(0))
+
+  const data = new Uint8Array([1, 2, 3, 4])
+  t.equal(store.setBytes(b, 'data', data), data)
+  const copy = store.getBytes(b, 'data')
+  t.same(copy, data)
+  copy[0] = 100
+  t.equal(store.getBytes(b, 'data')[0], 1, 'returns a copy')
+  t.equal(store.setBytes(b, 'name', '✨ sparkle'), '✨ sparkle')
+  t.equal(store.getString(b, 'name'), '✨ sparkle')
+  t.equal(arena.length, 5 + 4 + 11)
+  t.equal(arena.garbage, 0)
+
+  // overwriting and freeing leaves garbage until compacted
+  store.setBytes(a, 'name', 'hi')
+  t.equal(arena.garbage, 5)
+  store.setBytes(a, 'name', '')
+  t.equal(arena.garbage, 7)
+  t.equal(store.getString(a, 'name'), '')
+  store.free(b)
+  t.equal(arena.garbage, 7 + 4 + 11)
+  t.equal(store.getString(b, 'name'), '', 'free clears the field')
+
+  // rawAll reads and writes bytes fields like alloc()
+  store.rawAll(a, { name: 'abc', data: new Uint8Array([9]) })
+  t.same(store.rawAll(a), {
+    name: new TextEncoder().encode('abc'),
+    data: new Uint8Array([9]),
+    n: 1,
+  })
+  const c = store.alloc(null, {}, { data: 'xyz' })
+  store.erase(c)
+  t.same(store.rawAll(c), {
+    name: new Uint8Array(0),
+    data: new Uint8Array(0),
+    n: 0,
+  })
+
+  // compacting moves the live data to the start of the arena
+  const { length, garbage } = arena
+  t.equal(store.compactArena(), garbage)
+  const used = length - garbage
+  t.equal(arena.length, used)
+  t.equal(arena.garbage, 0)
+  t.equal(store.getString(a, 'name'), 'abc')
+  t.same(store.getBytes(a, 'data'), new Uint8Array([9]))
+  t.equal(store.compactArena(), 0)
+
+  // other raw accessors can't be used on bytes fields
+  t.throws(
+    //@ts-expect-error
+    () => store.raw(a, 'name'),
+    errBytesField('name')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.rawView(a, 'data'),
+    errBytesField('data')
+  )
+  t.throws(() => store.raw32(a, 'data'), errBytesField('data'))
+  t.throws(
+    //@ts-expect-error
+    () => store.getString(a, 'n'),
+    errNotBytesField('n')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.setBytes(a, 'next', 'x'),
+    errNotBytesField('next')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.getBytes(a, 'nope'),
+    errUnknownRawField('nope')
+  )
+  t.throws(() => store.getString(0 as Pointer, 'name'), {
+    message: 'cannot read from null pointer',
+  })
+  t.throws(() => store.getBytes(0 as Pointer, 'name'), {
+    message: 'cannot read from null pointer',
+  })
+  t.throws(() => store.setBytes(0 as Pointer, 'name', ''), {
+    message: 'cannot write to null pointer',
+  })
+})
+
+t.test('the arena grows and shrinks', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 64, r)
+  const arena = store.arena as NonNullable<typeof store.arena>
+  const big = new Uint8Array(3000).fill(7)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 100; i++) {
+    ptrs.push(store.alloc(null, {}, { name: `entry ${i}`, data: big }))
+  }
+  t.equal(store.blocksCount(), 2)
+  t.equal(arena.data.length, 524288)
+  t.equal(store.getString(ptrs[99], 'name'), 'entry 99')
+  for (let i = 0; i < 100; i++) {
+    if (i % 10) {
+      store.free(ptrs[i])
+    }
+  }
+  store.compactArena()
+  t.equal(arena.data.length, 32768)
+  for (let i = 0; i < 100; i += 10) {
+    t.equal(store.getString(ptrs[i], 'name'), `entry ${i}`)
+    t.same(store.getBytes(ptrs[i], 'data'), big)
+  }
+
+  // wipeBlock releases everything in the block
+  store.blocks[1].wipeBlock()
+  t.equal(store.compactArena(), 3 * (3000 + 8))
+  store.wipeBlock()
+  store.compactArena()
+  t.equal(arena.length, 0)
+})
+
+t.test('compact, collect, and snapshots', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 8; i++) {
+    ptrs.push(store.alloc(null, {}, { name: `${i}`.repeat(i + 1) }))
+  }
+  store.free(ptrs[0])
+  store.free(ptrs[2])
+  const remap = store.compact()
+  const moved = remap.get(ptrs[7]) as Pointer
+  t.equal(store.getString(moved, 'name'), '77777777')
+  t.equal(store.getString(ptrs[1], 'name'), '11')
+
+  // freeing the moved entry releases its data once
+  const arena = store.arena as NonNullable<typeof store.arena>
+  const garbage = arena.garbage
+  store.free(moved)
+  t.equal(arena.garbage, garbage + 8)
+  const reused = store.alloc(null)
+  t.equal(store.getString(reused, 'name'), '')
+  t.equal(arena.garbage, garbage + 8)
+
+  const size = store.size()
+  t.equal(store.collect([ptrs[1]]), size - 2)
+  t.equal(store.getString(ptrs[1], 'name'), '11')
+  store.setBytes(ptrs[1], 'data', new Uint8Array([1, 2, 3]))
+
+  const loaded = PointerSet.fromBuffer<null, typeof f, typeof r>(
+    store.toBuffer()
+  )
+  t.same(loaded.fieldLists(), store.fieldLists())
+  t.equal(loaded.getString(ptrs[1], 'name'), '11')
+  t.same(loaded.getBytes(ptrs[1], 'data'), new Uint8Array([1, 2, 3]))
+  t.equal(loaded.arena?.garbage, arena.garbage)
+  t.equal(loaded.arena?.length, arena.length)
+
+  // sets without bytes fields have no arena
+  const plain = new PointerSet<null, typeof f>(f)
+  t.equal(plain.arena, undefined)
+  t.equal(plain.compactArena(), 0)
+})
+
+t.test('checked and generations', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r, {
+    checked: true,
+    generations: true,
+  })
+  const a = store.alloc(null, {}, { name: 'a' })
+  store.free(a)
+  t.throws(() => store.getString(a, 'name'), errStalePointer(a))
+  t.throws(() => store.setBytes(a, 'name', 'b'), errStalePointer(a))
+  const checked = new PointerSet<null, typeof f, typeof r>(f, 4, r, {
+    checked: true,
+  })
+  t.throws(() => checked.getBytes((2 << 8) as Pointer, 'name'))
+})
+
+t.test('invalid bytes fields', async t => {
+  t.throws(
+    () =>
+      new PointerSet(f, 4, [['x', 'bytes']], {
+        shared: true,
+      }),
+    TypeError('bytes fields are not allowed in shared sets')
+  )
+  t.throws(
+    () =>
+      //@ts-expect-error
+      new PointerSet(f, 4, [['x', 'bytes', 4]]),
+    TypeError('invalid width for raw field x: 4')
+  )
+})
@@ -0,0 +1,107 @@
+import t from 'tap'
+import {
+  errDoubleFree,
+  errFreedPointer,
+  errStalePointer,
+  errUnallocatedPointer,
+  errUnknownBlock,
+  Pointer,
+  PointerSet,
+} from '../'
+
+const f = ['next'] as const
+const r = ['n'] as const
+
+t.test('checked access', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r, {
+    checked: true,
+  })
+  t.equal(store.checked, true)
+  const a = store.alloc('a')
+  const b = store.alloc('b', { next: a }, { n: 1 })
+  store.alloc('c')
+  const d = store.alloc('d')
+  t.equal(store.blocks[1].checked, true)
+
+  // live entries work as normal
+  t.equal(store.ref(b, 'next'), a)
+  t.equal(store.raw(b, 'n'), 1)
+  t.equal(store.raw8(b, 'n')[0], 1)
+  t.equal(store.raw16(b, 'n')[0], 1)
+  t.equal(store.raw32(b, 'n')[0], 1)
+  t.equal(store.value(b), 'b')
+  t.same(store.refAll(b), { next: a })
+  t.same(store.rawAll(b), { n: 1 })
+
+  const accessors: [string, (p: Pointer) => any][] = [
+    ['ref', p => store.ref(p, 'next')],
+    ['ref write', p => store.ref(p, 'next', a)],
+    ['refAll', p => store.refAll(p)],
+    ['compareExchangeRef', p => store.compareExchangeRef(p, 'next', a, a)],
+    ['raw', p => store.raw(p, 'n')],
+    ['raw write', p => store.raw(p, 'n', 1)],
+    ['raw8', p => store.raw8(p, 'n')],
+    ['raw16', p => store.raw16(p, 'n')],
+    ['raw32', p => store.raw32(p, 'n')],
+    ['rawAll', p => store.rawAll(p)],
+    ['compareExchangeRaw', p => store.compareExchangeRaw(p, 'n', 0, 1)],
+    ['value', p => store.value(p)],
+    ['value write', p => store.value(p, 'x')],
+  ]
+
+  store.free(a)
+  const missing = (4 << 8) as Pointer
+  const unallocated = (d + 1) as Pointer
+  for (const [name, fn] of accessors) {
+    t.throws(() => fn(a), errFreedPointer(a), `${name} freed`)
+    t.throws(() => fn(missing), errUnknownBlock(missing), `${name} block`)
+    t.throws(
+      () => fn(unallocated),
+      errUnallocatedPointer(unallocated),
+      `${name} unallocated`
+    )
+  }
+  t.throws(() => store.raw8(0 as Pointer, 'n'), {
+    message: 'cannot read from null pointer',
+  })
+  t.throws(() => store.raw16(0 as Pointer, 'n', new Uint16Array(2)), {
+    message: 'cannot write to null pointer',
+  })
+  t.throws(() => store.raw32(0 as Pointer, 'n'), {
+    message: 'cannot read from null pointer',
+  })
+
+  // freeing twice is an error, as is freeing what was never allocated
+  t.throws(() => store.free(a), errDoubleFree(a))
+  t.throws(() => store.erase(a), errDoubleFree(a))
+  t.throws(
+    () => store.free(unallocated),
+    errUnallocatedPointer(unallocated)
+  )
+  t.throws(() => store.free(missing), errUnknownBlock(missing))
+  store.erase(d)
+  t.throws(() => store.erase(d), errUnallocatedPointer(d))
+})
+
+t.test('unchecked access is not validated', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  t.equal(store.checked, false)
+  const a = store.alloc('a', {}, { n: 1 })
+  store.free(a)
+  t.equal(store.raw(a, 'n'), 1)
+  t.equal(store.value(a), undefined)
+  store.free(a)
+})
+
+t.test('checked with generations', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    checked: true,
+    generations: true,
+  })
+  const a = store.alloc(null)
+  store.free(a)
+  t.throws(() => store.free(a), errStalePointer(a))
+  const b = store.alloc(null)
+  t.throws(() => store.ref(a, 'next'), errStalePointer(a))
+  t.equal(store.ref(b, 'next'), 0)
+})
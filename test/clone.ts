@@ -0,0 +1,129 @@
+import t from 'tap'
+import { errStalePointer, Pointer, PointerSet } from '../'
+
+const f = ['next', 'owner'] as const
+const r = ['n', ['v', 'float64'], ['name', 'bytes']] as const
+
+t.test('a clone is an independent copy', async t => {
+  const store = new PointerSet<{ i: number }, typeof f, typeof r>(
+    f,
+    4,
+    r,
+    {
+      counted: ['owner'],
+    }
+  )
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 10; i++) {
+    ptrs.push(
+      store.alloc(
+        { i },
+        { next: ptrs[i - 1], owner: ptrs[0] },
+        { n: i, v: i / 2, name: `entry ${i}` }
+      )
+    )
+  }
+  store.free(ptrs[9])
+  store.free(ptrs[4])
+  store.retain(ptrs[3])
+
+  const copy = store.clone(v => ({ ...v }))
+  t.not(copy, store)
+  t.equal(copy.blocksCount(), store.blocksCount())
+  t.same(copy.fieldLists(), store.fieldLists())
+  t.same(copy.countedFields, store.countedFields)
+  t.equal(copy.size(), store.size())
+  t.equal(copy.totalAvailable(), store.totalAvailable())
+  t.same([...copy.pointers()], [...store.pointers()])
+  for (const p of store.pointers()) {
+    t.same(copy.value(p), store.value(p))
+    t.not(copy.value(p), store.value(p), 'value was copied')
+    t.same(copy.refAll(p), store.refAll(p))
+    t.same(copy.rawAll(p), store.rawAll(p))
+    t.equal(copy.refCount(p), store.refCount(p))
+  }
+
+  // the blocks belong to the copy only
+  for (let b = 0; b < copy.blocksCount(); b++) {
+    t.equal(copy.blocks[b].blocks, copy.blocks)
+    t.not(copy.blocks[b], store.blocks[b])
+    t.not(copy.blocks[b].fields[0], store.blocks[b].fields[0])
+  }
+  for (const block of copy.blocksAvail) {
+    t.equal(copy.blocks[block.blockId], block)
+  }
+  t.equal(copy.blocksAvail.size, 2)
+  t.not(copy.arena, store.arena)
+
+  // changes in one do not show up in the other
+  copy.ref(ptrs[5], 'next', ptrs[1])
+  copy.raw(ptrs[5], 'v', 100)
+  copy.setBytes(ptrs[5], 'name', 'changed')
+  copy.free(ptrs[6])
+  t.equal(store.ref(ptrs[5], 'next'), ptrs[4])
+  t.equal(store.raw(ptrs[5], 'v'), 2.5)
+  t.equal(store.getString(ptrs[5], 'name'), 'entry 5')
+  t.same(store.value(ptrs[6]), { i: 6 })
+  t.equal(copy.value(ptrs[6]), undefined)
+
+  // freed slots are reused
+  const reused = [
+    copy.alloc({ i: 6 }),
+    copy.alloc({ i: 4 }),
+    copy.alloc({ i: 9 }),
+  ]
+  t.same(reused.sort(), [ptrs[4], ptrs[6], ptrs[9]])
+  t.equal(copy.blocksCount(), 3)
+  t.equal(copy.totalAvailable(), 1)
+  copy.alloc({ i: 10 })
+  copy.alloc({ i: 11 })
+  t.equal(copy.blocksCount(), 4)
+  t.equal(store.blocksCount(), 3)
+})
+
+t.test('values are shared without a copy function', async t => {
+  const store = new PointerSet<{ i: number }, typeof f>(f)
+  const p = store.alloc({ i: 1 })
+  const q = store.alloc({ i: 2 })
+  store.free(p)
+  const copy = store.clone()
+  t.equal(copy.value(q), store.value(q))
+  t.equal(copy.values.length, store.values.length)
+  t.not(copy.values, store.values)
+  t.equal(copy.arena, undefined)
+})
+
+t.test('options are copied', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    generations: true,
+    checked: true,
+    valueless: true,
+  })
+  const a = store.alloc(null)
+  const b = store.alloc(null)
+  store.free(a)
+  const copy = store.clone()
+  t.equal(copy.generations, true)
+  t.equal(copy.checked, true)
+  t.equal(copy.valueless, true)
+  t.same(copy.values, [])
+  t.throws(() => copy.free(a), errStalePointer(a))
+  t.same([...copy.pointers()], [b])
+
+  const shared = new PointerSet<null, typeof f>(f, 4, [], {
+    concurrent: true,
+  })
+  const c = shared.alloc(null, { next: 1 as Pointer })
+  for (let i = 0; i < 4; i++) {
+    shared.alloc(null)
+  }
+  const sharedCopy = shared.clone()
+  t.equal(sharedCopy.concurrent, true)
+  t.not(sharedCopy.fields[0].buffer, shared.fields[0].buffer)
+  t.type(sharedCopy.fields[0].buffer, SharedArrayBuffer)
+  t.equal(sharedCopy.ref(c, 'next'), 1)
+  t.equal(sharedCopy.blocks[0].state[3], 2, 'block count')
+  t.equal(sharedCopy.alloc(null), shared.alloc(null))
+  const attached = PointerSet.attach<null, typeof f>(sharedCopy.share())
+  t.same([...attached.pointers()], [...sharedCopy.pointers()])
+})
@@ -0,0 +1,111 @@
+import t from 'tap'
+import {
+  errRawAsPointer,
+  errStalePointer,
+  errUnknownPointerField,
+  Pointer,
+  PointerSet,
+} from '../'
+
+const f = ['left', 'right', 'parent'] as const
+const r = ['n'] as const
+
+t.test('collect unreachable entries', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  // root -> a, b; a -> c; b -> a (shared), each pointing back to parent
+  const root = store.alloc('root')
+  const a = store.alloc('a', { parent: root })
+  const b = store.alloc('b', { left: a, parent: root })
+  const c = store.alloc('c', { parent: a })
+  store.refAll(root, { left: a, right: b })
+  store.ref(a, 'left', c)
+  // garbage: a cycle, and a chain hanging off of it
+  const x = store.alloc('x')
+  const y = store.alloc('y', { left: x })
+  store.ref(x, 'left', y)
+  const z = store.alloc('z', { parent: y, right: root })
+  t.equal(store.size(), 8)
+
+  t.equal(store.collect([root]), 3)
+  t.equal(store.size(), 5)
+  for (const p of [root, a, b, c]) {
+    t.not(store.value(p), undefined)
+  }
+  for (const p of [x, y, z]) {
+    t.equal(store.value(p), undefined)
+  }
+  t.equal(store.collect([root]), 0, 'nothing left to collect')
+
+  // only follow some fields
+  t.equal(store.collect([c], ['parent']), 1)
+  t.same([...store.pointers()], [root, a, c])
+
+  // nothing reachable, everything goes
+  t.equal(store.collect([]), 3)
+  t.equal(store.size(), 1)
+  t.equal(
+    store.blocks.every(b => b.nextFree === b.firstNextFree),
+    true
+  )
+})
+
+t.test('roots and refs that are not live are ignored', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4)
+  const a = store.alloc(null)
+  const b = store.alloc(null)
+  store.ref(a, 'left', b)
+  store.ref(a, 'right', (5 << 8) as Pointer)
+  store.free(b)
+  const c = store.alloc(null, { left: (b + 1) as Pointer })
+  t.equal(store.collect([a, c, b, 0 as Pointer]), 0)
+  t.equal(store.size(), 3)
+})
+
+t.test('many roots', async t => {
+  const store = new PointerSet<null, typeof f>(f, 256)
+  const roots: Pointer[] = []
+  for (let i = 0; i < 1000; i++) {
+    const p = store.alloc(null)
+    if (i % 4) {
+      roots.push(p)
+    }
+  }
+  t.equal(store.collect(roots), 250)
+  t.same([...store.pointers()], roots)
+})
+
+t.test('invalid fields', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  const a = store.alloc(null)
+  t.throws(
+    //@ts-expect-error
+    () => store.collect([a], ['n']),
+    errRawAsPointer('n')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.collect([a], ['nope']),
+    errUnknownPointerField('nope')
+  )
+  t.equal(store.size(), 2)
+  const concurrent = new PointerSet<null, typeof f>(f, 4, [], {
+    concurrent: true,
+  })
+  t.throws(
+    () => concurrent.collect([]),
+    Error('cannot collect a concurrent set')
+  )
+})
+
+t.test('collect with generations', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    generations: true,
+  })
+  const a = store.alloc(null)
+  const b = store.alloc(null, { left: a })
+  const c = store.alloc(null)
+  t.equal(store.collect([b]), 1)
+  t.throws(() => store.value(c), errStalePointer(c))
+  t.throws(() => store.collect([c]), errStalePointer(c))
+  t.equal(store.ref(b, 'left'), a)
+})
@@ -0,0 +1,102 @@
+import t from 'tap'
+import { Pointer, PointerSet } from '../'
+
+const f = ['next', 'prev'] as const
+const r = ['n'] as const
+
+t.test('compact a churned set', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 20; i++) {
+    ptrs.push(store.alloc(`${i}`, {}, { n: i }))
+  }
+  t.equal(store.blocksCount(), 6)
+  // keep every third entry, linked together in a list
+  const kept = ptrs.filter((_, i) => i % 3 === 0)
+  for (const p of ptrs) {
+    if (!kept.includes(p)) {
+      store.free(p)
+    }
+  }
+  for (let i = 1; i < kept.length; i++) {
+    store.refAll(kept[i], { prev: kept[i - 1] })
+    store.ref(kept[i - 1], 'next', kept[i])
+  }
+  t.equal(store.size(), kept.length + 1)
+
+  const remap = store.compact()
+  t.equal(store.size(), kept.length + 1)
+  t.equal(store.blocksCount(), 2)
+  t.equal(store.totalAvailable(), 0)
+  t.equal(remap.has(kept[0]), false, 'first entry did not move')
+  const moved = kept.map(p => remap.get(p) ?? p)
+  t.same(
+    moved,
+    [1, 256, 259, 2, 3, 257, 258],
+    'entries fill the lowest free slots'
+  )
+
+  // the list is still linked, and every value moved along
+  for (let i = 0; i < moved.length; i++) {
+    const p = moved[i]
+    t.equal(store.value(p), `${i * 3}`)
+    t.same(store.rawAll(p), { n: i * 3 })
+    t.same(store.refAll(p), {
+      next: moved[i + 1] ?? 0,
+      prev: moved[i - 1] ?? 0,
+    })
+  }
+
+  // bookkeeping is reset, so allocs carry on from the end
+  t.equal(store.blocksAvail.size, 0)
+  const p = store.alloc('new')
+  t.equal(p, 512)
+  t.equal(store.alloc('next'), 513)
+  t.equal(store.blocksCount(), 3)
+
+  // nothing to move
+  t.equal(store.compact().size, 0)
+  store.free(p)
+  t.same([...store.compact()], [[513, 512]])
+  t.equal(store.value(p), 'next')
+  t.equal(store.blocksCount(), 3)
+  t.equal(store.alloc('last'), 513)
+})
+
+t.test('compact an empty set', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 10; i++) {
+    ptrs.push(store.alloc(null))
+  }
+  for (const p of ptrs) {
+    store.free(p)
+  }
+  t.equal(store.compact().size, 0)
+  t.equal(store.blocksCount(), 1)
+  t.equal(store.size(), 1)
+  t.equal(store.alloc(null), 1)
+})
+
+t.test('compact a shared set', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], { shared: true })
+  const a = store.alloc(null)
+  const b = store.alloc(null)
+  store.alloc(null)
+  const c = store.alloc(null, { prev: b })
+  store.free(a)
+  const remap = store.compact()
+  t.same([...remap], [[c, a]])
+  t.equal(store.ref(a, 'prev'), b)
+  t.equal(store.blocksCount(), 1)
+  const attached = PointerSet.attach<null, typeof f>(store.share())
+  t.equal(attached.size(), 4)
+  t.equal(attached.blocksAvail.size, 0)
+})
+
+t.test('cannot compact a concurrent set', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    concurrent: true,
+  })
+  t.throws(() => store.compact(), Error('cannot compact a concurrent set'))
+})
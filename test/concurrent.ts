@@ -0,0 +1,235 @@
+import t from 'tap'
+import { resolve } from 'path'
+import { MessageChannel, Worker } from 'worker_threads'
+import {
+  errRawAsPointer,
+  errUnknownPointerField,
+  Pointer,
+  PointerSet,
+  SharedBlockDescriptor,
+} from '../'
+
+const f = ['next'] as const
+const r = ['n'] as const
+
+t.test('compare and exchange', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  const a = store.alloc(null)
+  const b = store.alloc(null)
+  t.equal(store.compareExchangeRef(a, 'next', b, a), 0, 'not exchanged')
+  t.equal(store.ref(a, 'next'), 0)
+  t.equal(store.compareExchangeRef(a, 'next', 0 as Pointer, b), 0)
+  t.equal(store.ref(a, 'next'), b, 'exchanged')
+
+  const big = 2 ** 32 - 1
+  t.equal(store.compareExchangeRaw(b, 'n', 1, 2), 0, 'not exchanged')
+  t.equal(store.raw(b, 'n'), 0)
+  t.equal(store.compareExchangeRaw(b, 'n', 0, big), 0)
+  t.equal(store.compareExchangeRaw(b, 'n', big, 7), big)
+  t.equal(store.raw(b, 'n'), 7, 'exchanged')
+
+  t.throws(
+    () => store.compareExchangeRef(0 as Pointer, 'next', a, b),
+    TypeError('cannot write to null pointer')
+  )
+  t.throws(
+    () => store.compareExchangeRaw(0 as Pointer, 'n', 0, 1),
+    TypeError('cannot write to null pointer')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.compareExchangeRef(a, 'n', a, b),
+    errRawAsPointer('n')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.compareExchangeRef(a, 'asdf', a, b),
+    errUnknownPointerField('asdf')
+  )
+})
+
+t.test('concurrent set in a single thread', async t => {
+  const blocks: SharedBlockDescriptor[] = []
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r, {
+    concurrent: true,
+    onBlock: b => blocks.push(b),
+  })
+  t.equal(store.concurrent, true)
+  t.equal(store.shared, true)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 10; i++) {
+    ptrs.push(store.alloc(null, {}, { n: i }))
+  }
+  t.equal(store.blocksCount(), 3)
+  t.equal(blocks.length, 2)
+  t.equal(store.size(), 11)
+  for (const b of store.blocks) {
+    t.equal(b.concurrent, true)
+  }
+
+  // free from the middle, the end, and all of a block
+  store.free(ptrs[1])
+  store.free(ptrs[1])
+  store.erase(ptrs[9])
+  store.free(ptrs[8])
+  store.free(ptrs[7])
+  t.equal(store.size(), 7)
+  t.same(store.rawAll(ptrs[9]), { n: 0 })
+  t.equal(store.entryCount(2), 0)
+
+  // refills the root block, then the block that was emptied
+  t.equal(store.alloc(null), ptrs[1])
+  t.equal(store.alloc(null), ptrs[7])
+  t.equal(store.alloc(null), ptrs[8])
+
+  // a block that has space but isn't in blocksAvail is found
+  store.free(ptrs[4])
+  store.blocksAvail.clear()
+  t.equal(store.alloc(null), ptrs[4])
+  t.equal(store.blocksAvail.has(store.blocks[1]), true)
+
+  const attached = PointerSet.attach<null, typeof f, typeof r>(
+    store.share()
+  )
+  t.equal(attached.concurrent, true)
+  t.equal(attached.blocksCount(), 3)
+  t.equal(attached.size(), store.size())
+})
+
+t.test('growing with blocks missing', async t => {
+  const store = new PointerSet<null, []>([], 2, [], { concurrent: true })
+  const desc = store.share()
+  const pending: SharedBlockDescriptor[] = []
+  const a = PointerSet.attach<null, []>(desc, {
+    onBlock: b => pending.push(b),
+  })
+  const b = PointerSet.attach<null, []>(desc)
+  store.alloc(null)
+  // a grows the set, b and store don't know about it yet
+  t.equal(a.getBlockId(a.alloc(null)), 1)
+  t.equal(a.getBlockId(a.alloc(null)), 1)
+  t.equal(pending.length, 1)
+  t.equal(a.getBlockId(a.alloc(null)), 2)
+  t.equal(pending.length, 2)
+  t.throws(
+    () => b.alloc(null),
+    Error(
+      'cannot grow concurrent set until blocks created by other threads ' +
+        'are attached'
+    )
+  )
+
+  // blocks can be attached out of order
+  const counts: number[] = []
+  const c = PointerSet.attach<null, []>(desc, {
+    onMissingBlocks: n => {
+      counts.push(n)
+      t.equal(c.attachBlock(pending[1]), undefined, 'held until ready')
+      t.equal(c.blocksCount(), 1)
+      t.equal(c.attachBlock(pending[0]), c.blocks[1])
+      t.equal(c.blocksCount(), 3)
+    },
+  })
+  t.equal(c.getBlockId(c.alloc(null)), 2)
+  t.same(counts, [3])
+  t.equal(c.getBlockId(c.alloc(null)), 3)
+  t.equal(c.blocksCount(), 4)
+
+  // a hook that doesn't attach anything doesn't loop forever
+  const d = PointerSet.attach<null, []>(desc, {
+    onMissingBlocks: () => {},
+  })
+  t.throws(() => d.alloc(null))
+})
+
+t.test('lock-free stack across worker threads', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 64, r, {
+    concurrent: true,
+  })
+  const head = store.alloc(null)
+  const workers: Worker[] = []
+  const ports: MessageChannel['port1'][] = []
+  const relay = (block: SharedBlockDescriptor, from?: number) => {
+    store.attachBlock(block)
+    ports.forEach((port, i) => i !== from && port.postMessage(block))
+  }
+  const count = 4
+  const n = 1000
+  for (let i = 0; i < count; i++) {
+    const { port1, port2 } = new MessageChannel()
+    ports.push(port1)
+    const worker = new Worker(
+      `
+      const { parentPort, workerData, receiveMessageOnPort } =
+        require('worker_threads')
+      const { PointerSet } = require(workerData.module)
+      const { port, id, n, head } = workerData
+      const sleep = new Int32Array(new SharedArrayBuffer(4))
+      const store = PointerSet.attach(workerData.desc, {
+        onBlock: block => parentPort.postMessage(block),
+        onMissingBlocks: count => {
+          while (store.blocksCount() < count) {
+            const msg = receiveMessageOnPort(port)
+            if (msg) store.attachBlock(msg.message)
+            else Atomics.wait(sleep, 0, 0, 1)
+          }
+        },
+      })
+      for (let i = 0; i < n; i++) {
+        const p = store.alloc(null, {}, { n: id * n + i })
+        if (i % 2) {
+          store.free(p)
+          continue
+        }
+        // push onto the shared stack
+        let next
+        do {
+          next = store.ref(head, 'next')
+          store.ref(p, 'next', next)
+        } while (store.compareExchangeRef(head, 'next', next, p) !== next)
+      }
+      parentPort.postMessage('done')
+      `,
+      {
+        eval: true,
+        workerData: {
+          module: resolve('dist/cjs/index.js'),
+          desc: store.share(),
+          port: port2,
+          id: i,
+          n,
+          head,
+        },
+        transferList: [port2],
+      }
+    )
+    worker.on('message', msg => msg !== 'done' && relay(msg, i))
+    workers.push(worker)
+  }
+  await Promise.all(
+    workers.map(
+      w => new Promise(res => w.on('message', m => m === 'done' && res(m)))
+    )
+  )
+  await Promise.all(
+    workers.map(w => new Promise(res => w.once('exit', res)))
+  )
+  ports.forEach(p => p.close())
+
+  const seen = new Set<number>()
+  let length = 0
+  for (let p = store.ref(head, 'next'); p; p = store.ref(p, 'next')) {
+    length++
+    seen.add(store.raw(p, 'n'))
+  }
+  t.equal(length, (count * n) / 2)
+  t.equal(seen.size, length, 'no entries lost or shared')
+  const missing: number[] = []
+  for (let i = 0; i < count * n; i += 2) {
+    if (!seen.has(i)) {
+      missing.push(i)
+    }
+  }
+  t.same(missing, [], 'every kept entry is in the stack')
+  t.equal(store.size(), length + 2, 'freed entries are not live')
+})
@@ -0,0 +1,111 @@
+import t from 'tap'
+import { inspect } from 'util'
+import { Pointer, PointerSet } from '../'
+
+const f = ['next'] as const
+const r = ['n', ['name', 'bytes']] as const
+
+t.test('describe a pointer', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r, {
+    generations: true,
+    checked: true,
+  })
+  const a = store.alloc('a', {}, { n: 1, name: 'first' })
+  const ptrs: Pointer[] = [a]
+  for (let i = 0; i < 3; i++) {
+    ptrs.push(store.alloc(`v${i}`, { next: ptrs[i] }))
+  }
+  const b = ptrs[3]
+  t.same(store.describe(b), {
+    blockId: 1,
+    index: 0,
+    live: true,
+    value: 'v2',
+    refs: { next: ptrs[2] },
+    raws: { n: 0, name: new Uint8Array(0) },
+  })
+  t.same(store.describe(a).raws, {
+    n: 1,
+    name: new TextEncoder().encode('first'),
+  })
+
+  // freed, stale, and null pointers do not throw
+  store.free(a)
+  t.same(store.describe(a), {
+    blockId: 0,
+    index: 1,
+    live: false,
+    value: undefined,
+    refs: undefined,
+    raws: undefined,
+  })
+  const again = store.alloc('again')
+  t.equal(store.describe(again).live, true)
+  t.equal(store.describe(a).live, false, 'stale')
+  t.same(store.describe(0 as Pointer), {
+    blockId: 0,
+    index: 0,
+    live: false,
+    value: undefined,
+    refs: undefined,
+    raws: undefined,
+  })
+  t.equal(store.describe((9 << 8) as Pointer).blockId, 9)
+})
+
+t.test('util.inspect shows a summary', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 14; i++) {
+    ptrs.push(store.alloc(`v${i}`, { next: ptrs[i - 1] }, { n: i }))
+  }
+  store.free(ptrs[13])
+
+  const out = inspect(store)
+  t.match(out, /^PointerSet \{/)
+  t.match(out, "fields: [ 'next' ]")
+  t.match(out, "rawFields: [ 'n', [ 'name', 'bytes' ] ]")
+  t.match(out, 'size: 14')
+  t.match(out, 'available: 2')
+  t.match(out, '{ entries: 4, available: 0 }')
+  t.match(out, '{ entries: 2, available: 2 }')
+  t.match(out, 'Map(10)')
+  t.match(out, "value: 'v9'")
+  t.notMatch(out, "value: 'v10'", 'only the first entries')
+  t.notMatch(out, 'Uint32Array', 'slabs are not shown')
+
+  // nested deeper than the inspect depth
+  t.equal(
+    inspect({ a: { b: { store } } }),
+    '{ a: { b: { store: [PointerSet] } } }'
+  )
+
+  // entries are shown in full at the default depth
+  t.match(
+    out,
+    "2 => { value: 'v1', refs: { next: 1 }, raws: { n: 1, name: Uint8Array(0) [] } }"
+  )
+  t.match(
+    inspect({ store }),
+    'refs: { next: 2 }, raws: { n: 2, name: Uint8Array(0) [] } }'
+  )
+  t.notMatch(out, 'null prototype')
+  t.match(inspect(store.blocks[1]), /^PointerSetBlock \{/)
+
+  // older versions of node do not pass the inspect function
+  const custom = (store as any)[inspect.custom]
+  const summary = custom.call(store, 2, { stylize: (s: string) => s })
+  t.same(summary.fields, ['next'])
+  t.equal(summary.size, 14)
+  t.equal(summary.entries.size, 10)
+  t.same(summary.entries.get(ptrs[1]), {
+    value: 'v1',
+    refs: { next: ptrs[0] },
+    raws: { n: 1, name: new Uint8Array(0) },
+  })
+  t.match(inspect(summary), "value: 'v0'")
+  t.equal(
+    custom.call(store, -1, { stylize: (s: string) => s }),
+    '[PointerSet]'
+  )
+})
@@ -0,0 +1,186 @@
+import t from 'tap'
+import {
+  diff,
+  errIncompatibleField,
+  Pointer,
+  PointerSet,
+  ValueCodec,
+} from '../'
+
+const f = ['next', 'prev'] as const
+const r = [
+  'n',
+  ['v', 'float64'],
+  ['key', 'uint8', 4],
+  ['name', 'bytes'],
+] as const
+const noDiff = { added: [], freed: [], changed: [] }
+
+t.test('added, freed, and changed entries', async t => {
+  const a = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(
+      a.alloc(`v${i}`, { next: ptrs[i - 1] }, { n: i, name: `name ${i}` })
+    )
+  }
+  const b = a.clone()
+  t.same(diff(a, b), noDiff)
+  t.same(diff(a, a), noDiff)
+
+  const added = b.alloc('added')
+  const later = b.alloc('later')
+  t.equal(b.blocksCount(), 3)
+  b.free(ptrs[1])
+  b.ref(ptrs[2], 'next', ptrs[0])
+  b.ref(ptrs[2], 'prev', ptrs[5])
+  b.value(ptrs[3], 'changed')
+  b.raw(ptrs[4], 'n', 40)
+  b.rawView(ptrs[4], 'key', [1, 2])
+  b.setBytes(ptrs[5], 'name', 'renamed')
+  b.raw(ptrs[5], 'v', NaN)
+
+  const d = diff(a, b)
+  t.same(d.freed, [ptrs[1]])
+  t.same(d.added, [added, later])
+  t.same(d.changed, [
+    {
+      pointer: ptrs[2],
+      refs: { next: [ptrs[1], ptrs[0]], prev: [0, ptrs[5]] },
+      raw: {},
+    },
+    { pointer: ptrs[3], refs: {}, raw: {}, value: ['v3', 'changed'] },
+    {
+      pointer: ptrs[4],
+      refs: {},
+      raw: {
+        n: [4, 40],
+        key: [new Uint8Array(4), new Uint8Array([1, 2, 0, 0])],
+      },
+    },
+    {
+      pointer: ptrs[5],
+      refs: {},
+      raw: {
+        v: [0, NaN],
+        name: [
+          new TextEncoder().encode('name 5'),
+          new TextEncoder().encode('renamed'),
+        ],
+      },
+    },
+  ])
+
+  // the other way around
+  const back = diff(b, a)
+  t.same(back.freed, [added, later])
+  t.same(back.added, [ptrs[1]])
+  t.same(back.changed[0].refs, {
+    next: [ptrs[0], ptrs[1]],
+    prev: [ptrs[5], 0],
+  })
+
+  // the report is a copy of the data
+  b.raw(ptrs[4], 'n', 4)
+  b.rawView(ptrs[4], 'key', [])
+  t.same(d.changed[2].raw.key, [
+    new Uint8Array(4),
+    new Uint8Array([1, 2, 0, 0]),
+  ])
+  t.same(diff(a, b).changed.length, 3)
+})
+
+t.test('snapshots and values', async t => {
+  const codec: ValueCodec<{ id: number }> = {
+    encode: v => new Uint8Array([v.id]),
+    decode: b => ({ id: b[0] }),
+  }
+  const a = new PointerSet<{ id: number }, typeof f>(f, 4)
+  const p = a.alloc({ id: 1 })
+  const q = a.alloc({ id: 2 })
+  const buf = a.toBuffer(codec)
+  a.value(q, { id: 3 })
+
+  const loaded = diff(buf, a, { codec })
+  t.same(
+    loaded.changed.map(e => e.pointer),
+    [p, q],
+    'decoded values are not the same objects'
+  )
+  const equal = (x: { id: number }, y: { id: number }) => x.id === y.id
+  t.same(diff(buf, a, { codec, equal }).changed, [
+    { pointer: q, refs: {}, raw: {}, value: [{ id: 2 }, { id: 3 }] },
+  ])
+  t.same(diff(buf, buf, { codec, equal }), noDiff)
+
+  // values are not compared when either set is valueless
+  const valueless = new PointerSet<{ id: number }, typeof f>(f, 4, [], {
+    valueless: true,
+  })
+  valueless.alloc({ id: 1 })
+  valueless.alloc({ id: 2 })
+  t.same(diff(a, valueless), noDiff)
+})
+
+t.test('generations and blocks', async t => {
+  const a = new PointerSet<null, typeof f>(f, 4, [], { generations: true })
+  const p = a.alloc(null)
+  const b = a.clone()
+  b.free(p)
+  const again = b.alloc(null)
+  t.not(again, p)
+  t.same(diff(a, b), { added: [again], freed: [p], changed: [] })
+
+  // entries in blocks that only exist in one set
+  const c = b.clone()
+  const more: Pointer[] = []
+  for (let i = 0; i < 5; i++) {
+    more.push(c.alloc(null))
+  }
+  t.equal(c.blocksCount(), 2)
+  t.same(diff(b, c), { added: more, freed: [], changed: [] })
+  t.same(diff(c, b), { added: [], freed: more, changed: [] })
+})
+
+t.test('sets must have the same schema', async t => {
+  const a = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  t.throws(
+    () => diff(a, new PointerSet<null, typeof f, typeof r>(f, 8, r)),
+    TypeError('cannot diff sets with different block sizes')
+  )
+  t.throws(
+    () => diff(a, new PointerSet(['next'], 4, r) as unknown as typeof a),
+    errIncompatibleField('prev')
+  )
+  t.throws(
+    () =>
+      diff(
+        a,
+        new PointerSet(f, 4, [
+          'n',
+          'v',
+          ['key', 'uint8', 4],
+          ['name', 'bytes'],
+        ]) as unknown as typeof a
+      ),
+    errIncompatibleField('v')
+  )
+  t.throws(
+    () =>
+      diff(
+        a,
+        new PointerSet(f, 4, [...r, 'extra']) as unknown as typeof a
+      ),
+    errIncompatibleField('extra')
+  )
+  t.throws(
+    () =>
+      diff(
+        a,
+        new PointerSet(['next', 'n'], 4, [
+          ['prev', 'float64'],
+        ]) as unknown as typeof a
+      ),
+    errIncompatibleField('prev')
+  )
+})
@@ -0,0 +1,100 @@
+import t from 'tap'
+import {
+  errRawAsPointer,
+  errStalePointer,
+  errUnknownPointerField,
+  Pointer,
+  PointerSet,
+} from '../'
+
+const f = ['next', 'prev'] as const
+const r = ['n', ['name', 'bytes']] as const
+
+t.test('extract a reachable subgraph', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 10; i++) {
+    ptrs.push(store.alloc(`v${i}`, {}, { n: i, name: `name ${i}` }))
+  }
+  // a cycle of 7 -> 5 -> 3 -> 7, with a side branch from 5 to 9
+  store.ref(ptrs[7], 'next', ptrs[5])
+  store.ref(ptrs[5], 'next', ptrs[3])
+  store.ref(ptrs[3], 'next', ptrs[7])
+  store.ref(ptrs[5], 'prev', ptrs[9])
+  store.ref(ptrs[9], 'prev', ptrs[1])
+  store.free(ptrs[1])
+
+  const [copy, remap] = store.extract([ptrs[7]])
+  t.same([...remap.keys()], [ptrs[7], ptrs[5], ptrs[3], ptrs[9]])
+  t.same(
+    [...remap.values()],
+    [1, 2, 3, 256].map(p => p as Pointer),
+    'densely packed from the start'
+  )
+  t.equal(copy.size(), 5)
+  t.equal(copy.blocksCount(), 2)
+  t.same(copy.fieldLists(), store.fieldLists())
+  for (const [old, p] of remap) {
+    t.equal(copy.value(p), store.value(old))
+    t.same(copy.rawAll(p), store.rawAll(old))
+  }
+  const get = (p: Pointer) => remap.get(p) as Pointer
+  t.equal(copy.ref(get(ptrs[7]), 'next'), get(ptrs[5]))
+  t.equal(copy.ref(get(ptrs[3]), 'next'), get(ptrs[7]), 'cycle rewritten')
+  t.equal(copy.ref(get(ptrs[5]), 'prev'), get(ptrs[9]))
+  t.equal(copy.ref(get(ptrs[9]), 'prev'), 0, 'ref to freed entry')
+
+  // the original is untouched
+  t.equal(store.size(), 10)
+  t.equal(store.ref(ptrs[3], 'next'), ptrs[7])
+
+  // only follow some fields
+  const [next, nextMap] = store.extract([ptrs[7], ptrs[0]], ['next'])
+  t.same([...nextMap.keys()], [ptrs[7], ptrs[0], ptrs[5], ptrs[3]])
+  t.equal(next.ref(nextMap.get(ptrs[5]) as Pointer, 'prev'), 0)
+  t.equal(
+    next.getString(nextMap.get(ptrs[0]) as Pointer, 'name'),
+    'name 0'
+  )
+
+  // nothing to copy
+  const [empty, emptyMap] = store.extract([0 as Pointer, ptrs[1]])
+  t.equal(emptyMap.size, 0)
+  t.equal(empty.size(), 1)
+
+  t.throws(
+    //@ts-expect-error
+    () => store.extract([ptrs[0]], ['n']),
+    errRawAsPointer('n')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.extract([ptrs[0]], ['nope']),
+    errUnknownPointerField('nope')
+  )
+})
+
+t.test('options, counts, and values', async t => {
+  const store = new PointerSet<{ id: number }, typeof f>(f, 4, [], {
+    counted: ['next'],
+    generations: true,
+    checked: true,
+  })
+  const a = store.alloc({ id: 1 })
+  const b = store.alloc({ id: 2 }, { next: a })
+  const c = store.alloc({ id: 3 }, { next: a, prev: b })
+  const [copy, remap] = store.extract([c], undefined, v => ({
+    id: v.id * 10,
+  }))
+  t.equal(copy.generations, true)
+  t.equal(copy.checked, true)
+  t.same(copy.countedFields, [true, false])
+  const ca = remap.get(a) as Pointer
+  t.same(copy.value(ca), { id: 10 })
+  t.not(copy.value(remap.get(c) as Pointer), store.value(c))
+  t.equal(copy.refCount(ca), 2, 'counted refs are counted')
+  t.equal(store.refCount(a), 2)
+
+  store.free(c)
+  t.throws(() => store.extract([c]), errStalePointer(c))
+})
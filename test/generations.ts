@@ -0,0 +1,204 @@
+import t from 'tap'
+import { errStalePointer, Pointer, PointerSet } from '../'
+
+const f = ['next'] as const
+const r = ['n'] as const
+
+t.test('stale pointers throw', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r, {
+    generations: true,
+  })
+  t.equal(store.generations, true)
+  const a = store.alloc('a')
+  const b = store.alloc('b', { next: a }, { n: 1 })
+  t.ok(a > 2 ** 32, 'generation above the low 32 bits')
+  t.equal(store.getBlockId(a), 0)
+  t.equal(store.getIndex(a), 1)
+  t.equal(store.ref(b, 'next'), a, 'refs are read with generation')
+  t.same(store.refAll(b), { next: a })
+  t.equal(store.value(b), 'b')
+
+  store.free(a)
+  const c = store.alloc('c')
+  t.equal(store.getIndex(c), store.getIndex(a), 'same slot')
+  t.not(c, a, 'different generation')
+  const stale = errStalePointer(a)
+  t.throws(() => store.value(a), stale)
+  t.throws(() => store.value(a, 'x'), stale)
+  t.throws(() => store.ref(a, 'next'), stale)
+  t.throws(() => store.refAll(a), stale)
+  t.throws(() => store.raw(a, 'n'), stale)
+  t.throws(() => store.raw8(a, 'n'), stale)
+  t.throws(() => store.raw16(a, 'n'), stale)
+  t.throws(() => store.raw32(a, 'n'), stale)
+  t.throws(() => store.rawAll(a), stale)
+  t.throws(() => store.compareExchangeRaw(a, 'n', 0, 1), stale)
+  t.throws(() => store.compareExchangeRef(a, 'next', c, b), stale)
+  t.throws(() => store.free(a), stale, 'double free')
+  t.throws(() => store.erase(a), stale)
+
+  // storing a stale pointer is also an error
+  t.throws(() => store.ref(b, 'next', a), stale)
+  t.throws(() => store.refAll(b, { next: a }), stale)
+  t.throws(() => store.alloc('d', { next: a }), stale)
+  t.throws(() => store.compareExchangeRef(b, 'next', a, a), stale)
+  t.equal(store.ref(b, 'next', c), c)
+  t.same(store.refAll(b, { next: c }), { next: c })
+  t.equal(store.compareExchangeRef(b, 'next', c, b), c)
+  t.equal(store.ref(b, 'next'), b)
+  t.equal(store.ref(b, 'next', 0 as Pointer), 0)
+  t.equal(store.ref(b, 'next'), 0, 'null pointer has no generation')
+
+  // plain pointers and pointers into missing blocks are not valid
+  const plain = store.getIndex(b) as number as Pointer
+  t.throws(() => store.value(plain), errStalePointer(plain))
+  const missing = store.getPointer(
+    3 as ReturnType<typeof store.getBlockId>,
+    store.getIndex(b)
+  )
+  t.throws(() => store.value(missing), errStalePointer(missing))
+
+  // erase and wipeBlock move on to the next generation as well
+  store.erase(c)
+  t.throws(() => store.value(c), errStalePointer(c))
+  const d = store.alloc('d')
+  store.wipeBlock()
+  t.throws(() => store.value(b), errStalePointer(b))
+  t.throws(() => store.value(d), errStalePointer(d))
+  t.not(store.alloc('e'), d)
+
+  // generations wrap around before the pointer gets too big
+  const e = store.alloc('e')
+  const gens = store.gens as Uint32Array
+  gens[store.getIndex(e)] = 2 ** 21 - 1
+  const big = store.getPointer(store.getBlockId(e), store.getIndex(e))
+  store.free((big + (2 ** 21 - 1) * 2 ** 32) as Pointer)
+  t.equal(Math.floor(store.alloc('f') / 2 ** 32), 1)
+})
+
+t.test('refs stored in fields do not keep a generation', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4, [], {
+    generations: true,
+  })
+  const a = store.alloc('a')
+  const b = store.alloc('b')
+  store.ref(a, 'next', b)
+  store.free(b)
+  const c = store.alloc('c')
+  t.equal(store.getIndex(c), store.getIndex(b), 'same slot')
+  t.equal(store.ref(a, 'next'), c, 'ref resolves to the new entry')
+  t.equal(store.value(store.ref(a, 'next')), 'c')
+  // the stale pointer b is taken to be the same as c
+  t.equal(store.compareExchangeRef(a, 'next', b, a), c)
+  t.equal(store.ref(a, 'next'), a, 'exchanged')
+})
+
+t.test('compact returns pointers with generations', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4, [], {
+    generations: true,
+  })
+  const a = store.alloc('a')
+  store.alloc('b')
+  store.alloc('c')
+  const d = store.alloc('d', { next: a })
+  const e = store.alloc('e', { next: d })
+  store.free(a)
+  const remap = store.compact()
+  t.equal(remap.size, 1)
+  const newE = remap.get(e) as Pointer
+  t.equal(store.getIndex(newE), store.getIndex(a))
+  t.not(newE, a)
+  t.equal(store.value(newE), 'e')
+  t.equal(store.ref(newE, 'next'), d)
+  t.throws(() => store.value(a), errStalePointer(a))
+  t.throws(() => store.value(e), errStalePointer(e))
+})
+
+t.test('dropped blocks keep their generations', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4, [], {
+    generations: true,
+  })
+  for (let i = 0; i < 3; i++) {
+    store.alloc(`root ${i}`)
+  }
+  const stale: Pointer[] = []
+  const regrow = (drop: () => unknown) => {
+    const p = store.alloc('dropped')
+    t.equal(store.getBlockId(p), 1)
+    stale.push(p)
+    drop()
+    t.equal(store.blocksCount(), 1, 'block was dropped')
+    const q = store.alloc('new')
+    t.equal(store.getBlockId(q), 1)
+    t.equal(store.getIndex(q), store.getIndex(p), 'same slot')
+    for (const s of stale) {
+      t.not(q, s)
+      t.throws(() => store.value(s), errStalePointer(s))
+    }
+    store.free(q)
+    stale.push(q)
+  }
+  regrow(() => {
+    store.free(stale[stale.length - 1])
+    store.trim()
+  })
+  regrow(() => {
+    store.free(stale[stale.length - 1])
+    store.dropEmpty()
+  })
+  // a live entry in a dropped block is stale too
+  regrow(() => store.blocks[1].drop())
+  // compact moves the entry down, then drops the block
+  regrow(() => {
+    store.free([...store.pointers()][0])
+    store.compact()
+  })
+
+  // clones keep them as well
+  const shared = new PointerSet<null, typeof f>(f, 4, [], {
+    generations: true,
+    shared: true,
+  })
+  shared.allocMany(3)
+  const p = shared.alloc(null)
+  shared.free(p)
+  shared.trim()
+  const copy = shared.clone()
+  const q = copy.alloc(null)
+  t.equal(copy.getIndex(q), copy.getIndex(p))
+  t.not(q, p)
+  t.type(copy.blocks[1].gens?.buffer, SharedArrayBuffer)
+  t.notOk(copy.droppedGens?.size, 'used up')
+  t.equal(shared.droppedGens?.size, 1, 'original untouched')
+})
+
+t.test('generations are kept in snapshots and shared memory', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    generations: true,
+    shared: true,
+  })
+  const a = store.alloc(null)
+  store.free(a)
+  const b = store.alloc(null)
+  store.alloc(null)
+  store.alloc(null)
+  const c = store.alloc(null, { next: b })
+  t.equal(store.blocksCount(), 2)
+
+  const loaded = PointerSet.fromBuffer<null, typeof f>(store.toBuffer())
+  t.equal(loaded.generations, true)
+  t.equal(loaded.ref(c, 'next'), b)
+  t.throws(() => loaded.value(a), errStalePointer(a))
+
+  const attached = PointerSet.attach<null, typeof f>(store.share())
+  t.equal(attached.generations, true)
+  t.equal(attached.ref(c, 'next'), b)
+  attached.free(b)
+  t.throws(() => store.value(b), errStalePointer(b))
+
+  const plain = new PointerSet<null, typeof f>(f)
+  const p = plain.alloc(null)
+  t.equal(plain.generations, false)
+  t.equal(p, 1)
+  t.equal(PointerSet.fromBuffer(plain.toBuffer()).generations, false)
+})
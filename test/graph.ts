@@ -0,0 +1,141 @@
+import t from 'tap'
+import {
+  errRawAsPointer,
+  errStalePointer,
+  errUnknownPointerField,
+  Pointer,
+  PointerSet,
+} from '../'
+
+const f = ['left', 'right', 'parent'] as const
+const r = ['n'] as const
+
+// a small binary tree, with parent refs back up
+const tree = () => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const root = store.alloc('root', {}, { n: 1 })
+  const a = store.alloc('a', { parent: root }, { n: 2 })
+  const b = store.alloc('b "quoted"', { parent: root }, { n: 3 })
+  const c = store.alloc('c', { parent: a }, { n: 4 })
+  store.refAll(root, { left: a, right: b })
+  store.ref(a, 'left', c)
+  const other = store.alloc('other')
+  return { store, root, a, b, c, other }
+}
+
+t.test('graph of every live entry', async t => {
+  const { store, root, a, b, c, other } = tree()
+  t.same(store.toGraph(), {
+    nodes: [
+      { pointer: root, label: 'root' },
+      { pointer: a, label: 'a' },
+      { pointer: b, label: 'b "quoted"' },
+      { pointer: c, label: 'c' },
+      { pointer: other, label: 'other' },
+    ],
+    edges: [
+      { from: root, to: a, field: 'left' },
+      { from: root, to: b, field: 'right' },
+      { from: a, to: c, field: 'left' },
+      { from: a, to: root, field: 'parent' },
+      { from: b, to: root, field: 'parent' },
+      { from: c, to: a, field: 'parent' },
+    ],
+  })
+  const graph = store.toGraph()
+  t.same(JSON.parse(JSON.stringify(graph)), graph, 'plain data')
+
+  // refs to freed entries are left out
+  store.free(b)
+  t.same(
+    store.toGraph({ fields: ['right'] }).edges,
+    [],
+    'no edge to freed entry'
+  )
+})
+
+t.test('graph from roots', async t => {
+  const { store, root, a, b, c } = tree()
+  const graph = store.toGraph({
+    roots: [a],
+    fields: ['left', 'right'],
+    format: (value, raws, pointer) => `${pointer}: ${value} (${raws.n})`,
+  })
+  t.same(graph, {
+    nodes: [
+      { pointer: a, label: `${a}: a (2)` },
+      { pointer: c, label: `${c}: c (4)` },
+    ],
+    edges: [{ from: a, to: c, field: 'left' }],
+  })
+
+  // cycles through the parent refs
+  const all = store.toGraph({ roots: [c] })
+  t.same(
+    all.nodes.map(n => n.pointer),
+    [c, a, root, b]
+  )
+  t.equal(all.edges.length, 6)
+
+  t.throws(
+    //@ts-expect-error
+    () => store.toGraph({ fields: ['n'] }),
+    errRawAsPointer('n')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.toGraph({ fields: ['nope'] }),
+    errUnknownPointerField('nope')
+  )
+})
+
+t.test('DOT output', async t => {
+  const { store, root, a, b, c } = tree()
+  t.equal(
+    store.toDot({ roots: [root], fields: ['left', 'right'] }),
+    `digraph PointerSet {
+  p${root} [label="root"];
+  p${a} [label="a"];
+  p${b} [label="b \\"quoted\\""];
+  p${c} [label="c"];
+  p${root} -> p${a} [label="left"];
+  p${root} -> p${b} [label="right"];
+  p${a} -> p${c} [label="left"];
+}
+`
+  )
+  t.equal(
+    new PointerSet<null, typeof f>(f).toDot(),
+    'digraph PointerSet {\n}\n'
+  )
+})
+
+t.test('generations and valueless sets', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    generations: true,
+    valueless: true,
+  })
+  const a = store.alloc(null)
+  store.free(a)
+  const b = store.alloc(null)
+  const c = store.alloc(null, { parent: b })
+  t.same(store.toGraph({ roots: [c] }), {
+    nodes: [
+      { pointer: c, label: String(c) },
+      { pointer: b, label: String(b) },
+    ],
+    edges: [{ from: c, to: b, field: 'parent' }],
+  })
+  t.throws(() => store.toGraph({ roots: [a] }), errStalePointer(a))
+  t.same(
+    store.toGraph().nodes.map(n => n.pointer),
+    [b, c]
+  )
+})
+
+t.test('refs to missing blocks are left out', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4)
+  const a = store.alloc('a', { left: (9 << 8) as Pointer })
+  t.same(store.toGraph().edges, [])
+  t.same(store.toGraph({ roots: [a] }).nodes, [{ pointer: a, label: 'a' }])
+})
@@ -0,0 +1,69 @@
+import t from 'tap'
+import { Pointer, PointerSet } from '../'
+
+const f = ['next'] as const
+
+t.test('iterate over live entries', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4)
+  t.same([...store.pointers()], [], 'null pointer is skipped')
+  t.same([...store], [])
+
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 10; i++) {
+    ptrs.push(store.alloc(`${i}`))
+  }
+  store.free(ptrs[1])
+  store.free(ptrs[4])
+  store.free(ptrs[9])
+  const live = ptrs.filter((_, i) => i !== 1 && i !== 4 && i !== 9)
+  t.same([...store.pointers()], live)
+  t.same(
+    [...store.entries()],
+    live.map(p => [p, store.value(p)])
+  )
+  t.same([...store], [...store.entries()])
+  const m = new Map(store)
+  t.equal(m.get(ptrs[3]), '3')
+  t.equal(m.size, store.size() - 1)
+})
+
+t.test('changing the set during iteration', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(store.alloc(`${i}`))
+  }
+  const seen: Pointer[] = []
+  const added: Pointer[] = []
+  for (const p of store.pointers()) {
+    seen.push(p)
+    if (p === ptrs[1]) {
+      // freed before it is reached, so skipped
+      store.free(ptrs[3])
+      // already passed, so not seen again when reused
+      store.free(ptrs[0])
+    } else if (p === ptrs[4]) {
+      // these reuse the slots freed above, which have been passed
+      t.equal(store.alloc('passed'), ptrs[0])
+      t.equal(store.alloc('passed'), ptrs[3])
+      // these have not been reached yet
+      added.push(store.alloc('next slot'))
+      added.push(store.alloc('new block'))
+    }
+  }
+  t.equal(store.blocksCount(), 3)
+  t.same(seen, [ptrs[0], ptrs[1], ptrs[2], ptrs[4], ptrs[5], ...added])
+})
+
+t.test('shared and generations', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4, [], {
+    generations: true,
+    shared: true,
+  })
+  const a = store.alloc('a')
+  const b = store.alloc('b')
+  store.free(a)
+  t.same([...store.pointers()], [b])
+  const attached = PointerSet.attach<string, typeof f>(store.share())
+  t.same([...attached], [[b, undefined]], 'values are not shared')
+})
@@ -0,0 +1,243 @@
+import t from 'tap'
+import { errOutOfMemory, Pointer, PointerScope, PointerSet } from '../'
+
+const f = ['next'] as const
+
+t.test('maxEntries throws by default', async t => {
+  const store = new PointerSet<number, typeof f>(f, 4, [], {
+    maxEntries: 5,
+  })
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 5; i++) {
+    ptrs.push(store.alloc(i))
+  }
+  t.throws(() => store.alloc(5), errOutOfMemory('maxEntries', 5))
+  t.throws(() => store.allocMany(1), errOutOfMemory('maxEntries', 5))
+  t.equal(store.size(), 6, 'nothing allocated')
+
+  // freeing makes room again
+  store.free(ptrs[0])
+  t.equal(store.alloc(5), ptrs[0])
+  store.free(ptrs[1])
+  store.free(ptrs[2])
+  t.same(store.allocMany(2), { start: ptrs[1], end: ptrs[2] + 1 })
+
+  // the limit can be changed
+  store.maxEntries = 6
+  store.alloc(6)
+  t.throws(() => store.alloc(7), errOutOfMemory('maxEntries', 6))
+  store.maxEntries = undefined
+  store.alloc(7)
+  t.equal(store.size(), 8)
+})
+
+t.test('maxBytes limits the number of blocks', async t => {
+  const probe = new PointerSet<number, typeof f>(f, 4)
+  const perBlock = probe.stats().bytes - probe.stats().valueBytes
+  const store = new PointerSet<number, typeof f>(f, 4, [], {
+    maxBytes: perBlock * 2,
+  })
+  for (let i = 0; i < 7; i++) {
+    store.alloc(i)
+  }
+  t.equal(store.blocksCount(), 2)
+  t.throws(() => store.alloc(7), errOutOfMemory('maxBytes', perBlock * 2))
+  t.throws(
+    () => store.allocMany(2),
+    errOutOfMemory('maxBytes', perBlock * 2)
+  )
+  store.maxBytes = perBlock * 3
+  store.allocMany(4)
+  t.equal(store.size(), 12)
+  t.equal(store.blocksCount(), 3)
+  t.equal(store.totalAvailable(), 0)
+})
+
+t.test('reserve and new fields are limited too', async t => {
+  const small = new PointerSet<null, []>([], 4, [], { maxBytes: 200 })
+  t.throws(() => small.reserve(100), errOutOfMemory('maxBytes', 200))
+  t.equal(small.blocksCount(), 1, 'no blocks added')
+
+  const probe = new PointerSet<null, typeof f>(f, 4)
+  const perBlock = probe.stats().bytes - probe.stats().valueBytes
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    maxBytes: perBlock * 2 + 32,
+  })
+  t.equal(store.reserve(7), 1)
+  t.throws(
+    () => store.reserve(8),
+    errOutOfMemory('maxBytes', perBlock * 2 + 32)
+  )
+  t.equal(store.blocksCount(), 2)
+
+  // 16 bytes more for each of the 2 blocks fits, but 32 does not
+  t.throws(
+    () => store.addRawField(['big', 'float64']),
+    errOutOfMemory('maxBytes', perBlock * 2 + 32)
+  )
+  t.throws(
+    () => store.addField('counted', { counted: true }),
+    errOutOfMemory('maxBytes', perBlock * 2 + 32)
+  )
+  t.same(store.fieldLists(), [['next'], []], 'nothing added')
+  const more = store.addField('prev')
+  t.throws(
+    () => more.addRawField(['small', 'uint8']),
+    errOutOfMemory('maxBytes', perBlock * 2 + 32)
+  )
+
+  // reserve never evicts, and only maxBytes applies to it
+  const ptrs: Pointer[] = []
+  const evicting = new PointerSet<null, typeof f>(f, 256, [], {
+    maxEntries: 10,
+    onPressure: () => t.fail('no pressure'),
+    evict: () => ptrs.shift(),
+  })
+  for (let i = 0; i < 8; i++) {
+    ptrs.push(evicting.alloc(null))
+  }
+  t.equal(evicting.reserve(5), 0)
+  t.equal(evicting.size(), 9, 'nothing evicted')
+  t.equal(ptrs.length, 8)
+  t.equal(new PointerSet(f, 256, [], { maxEntries: 10 }).reserve(20), 0)
+  t.equal(evicting.reserve(300), 1, 'capacity past maxEntries')
+  t.equal(evicting.size(), 9)
+})
+
+t.test('onPressure can free entries', async t => {
+  const ptrs: Pointer[] = []
+  const calls: number[] = []
+  const store: PointerSet<number, typeof f> = new PointerSet<
+    number,
+    typeof f
+  >(f, 4, [], {
+    maxEntries: 3,
+    onPressure: needed => {
+      calls.push(needed)
+      for (let i = 0; i < needed && ptrs.length; i++) {
+        store.free(ptrs.shift() as Pointer)
+      }
+    },
+  })
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(store.alloc(i))
+  }
+  t.same(calls, [1, 1, 1])
+  t.same(
+    ptrs.map(p => store.value(p)),
+    [3, 4, 5]
+  )
+  store.allocMany(2, () => 9)
+  t.same(calls, [1, 1, 1, 2])
+  t.equal(store.size(), 4)
+
+  // if it does not free enough, the allocation fails
+  const stuck = new PointerSet<number, typeof f>(f, 4, [], {
+    maxEntries: 1,
+    onPressure: () => {},
+  })
+  stuck.alloc(0)
+  t.throws(() => stuck.alloc(1), errOutOfMemory('maxEntries', 1))
+})
+
+t.test('evict frees the entries it picks', async t => {
+  // least recently used cache, with the order kept in a Map
+  const lru = new Map<string, Pointer>()
+  const store = new PointerSet<string, typeof f>(f, 4, [], {
+    maxEntries: 3,
+    generations: true,
+    evict: () => {
+      for (const [key, p] of lru) {
+        lru.delete(key)
+        return p
+      }
+    },
+  })
+  const get = (key: string) => {
+    let p = lru.get(key)
+    if (p === undefined) {
+      p = store.alloc(key)
+    }
+    lru.delete(key)
+    lru.set(key, p)
+    return p
+  }
+  const a = get('a')
+  get('b')
+  get('c')
+  get('a')
+  const d = get('d')
+  t.same([...lru.keys()], ['c', 'a', 'd'])
+  t.same(
+    [...store].map(([, v]) => v),
+    ['a', 'd', 'c'],
+    'b was evicted, and d took its place'
+  )
+  t.equal(store.value(a), 'a')
+  t.equal(store.value(d), 'd')
+
+  // evict everything for a big batch
+  store.allocMany(3, () => 'batch')
+  t.equal(lru.size, 0)
+  t.equal(store.size(), 4)
+
+  // stops when there is nothing more to evict
+  t.throws(() => store.alloc('x'), errOutOfMemory('maxEntries', 3))
+  t.equal(store.size(), 4)
+
+  // a batch bigger than the limit evicts nothing
+  lru.set('stale', a)
+  t.throws(() => store.allocMany(4), errOutOfMemory('maxEntries', 3))
+  t.equal(lru.size, 1)
+  t.throws(() => store.alloc('y'), errOutOfMemory('maxEntries', 3))
+  t.equal(lru.size, 0, 'stale pointer is not freed')
+})
+
+t.test('onPressure runs before evict', async t => {
+  const order: string[] = []
+  let first = 0 as Pointer
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    maxEntries: 1,
+    onPressure: () => order.push('pressure'),
+    evict: () => {
+      order.push('evict')
+      return first
+    },
+  })
+  first = store.alloc(null)
+  const scope = new PointerScope(store)
+  scope.alloc(null)
+  t.same(order, ['pressure', 'evict'])
+  t.equal(store.size(), 2)
+})
+
+t.test('invalid limits', async t => {
+  t.throws(
+    () => new PointerSet(f, 4, [], { maxEntries: 10, concurrent: true }),
+    TypeError('memory limits are not allowed in concurrent sets')
+  )
+  t.throws(
+    () => new PointerSet(f, 4, [], { maxBytes: 1000, concurrent: true }),
+    TypeError('memory limits are not allowed in concurrent sets')
+  )
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    onPressure: () => t.fail('no limits'),
+  })
+  t.equal(store.onPressure, undefined)
+
+  // limits are not copied
+  const limited = new PointerSet<null, typeof f>(f, 4, [], {
+    maxEntries: 1,
+    maxBytes: 10000,
+    onPressure: () => {},
+    evict: () => {},
+  })
+  const copy = limited.clone()
+  t.equal(copy.maxEntries, undefined)
+  t.equal(copy.maxBytes, undefined)
+  t.equal(copy.onPressure, undefined)
+  t.equal(copy.evict, undefined)
+  for (let i = 0; i < 10; i++) {
+    store.alloc(null)
+  }
+})
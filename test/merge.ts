@@ -0,0 +1,132 @@
+import t from 'tap'
+import {
+  errIncompatibleField,
+  errStalePointer,
+  Pointer,
+  PointerSet,
+} from '../'
+
+const f = ['next', 'prev'] as const
+const r = ['n', ['v', 'float64'], ['name', 'bytes']] as const
+
+t.test('merge every entry', async t => {
+  const main = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const existing = main.alloc('existing', {}, { n: 100 })
+  const worker = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(
+      worker.alloc(
+        `w${i}`,
+        { next: ptrs[i - 1] },
+        { n: i, v: i / 4, name: `name ${i}` }
+      )
+    )
+  }
+  worker.ref(ptrs[0], 'prev', ptrs[5])
+  worker.free(ptrs[2])
+
+  const remap = main.merge(worker)
+  t.equal(remap.size, 5)
+  t.same([...remap.keys()], [ptrs[0], ptrs[1], ptrs[3], ptrs[4], ptrs[5]])
+  t.equal(main.size(), 7)
+  t.equal(main.value(existing), 'existing')
+  for (const [old, p] of remap) {
+    t.equal(main.value(p), worker.value(old))
+    t.same(main.rawAll(p), worker.rawAll(old))
+  }
+  const get = (p: Pointer) => remap.get(p) as Pointer
+  t.equal(main.ref(get(ptrs[1]), 'next'), get(ptrs[0]))
+  t.equal(main.ref(get(ptrs[0]), 'prev'), get(ptrs[5]))
+  t.equal(main.ref(get(ptrs[3]), 'next'), 0, 'ref to freed entry')
+  t.equal(main.ref(get(ptrs[5]), 'next'), get(ptrs[4]))
+
+  // the worker store is untouched
+  t.equal(worker.size(), 6)
+  t.equal(worker.ref(ptrs[1], 'next'), ptrs[0])
+
+  // merging a set into itself makes copies
+  const again = main.merge(main)
+  t.equal(again.size, 6)
+  t.equal(main.size(), 13)
+  const copy = again.get(get(ptrs[1])) as Pointer
+  t.equal(main.getString(copy, 'name'), 'name 1')
+  t.equal(main.ref(copy, 'next'), again.get(get(ptrs[0])))
+})
+
+t.test('only what is reachable from the roots', async t => {
+  const other = new PointerSet<{ id: number }, ['next']>(['next'], 4)
+  const a = other.alloc({ id: 1 })
+  const b = other.alloc({ id: 2 }, { next: a })
+  const c = other.alloc({ id: 3 }, { next: b })
+  other.alloc({ id: 4 }, { next: c })
+  other.ref(a, 'next', c) // a cycle
+  const main = new PointerSet<{ id: number }, typeof f>(f, 4)
+  const remap = main.merge(other, {
+    roots: [b, 0 as Pointer, b],
+    copyValue: v => ({ ...v }),
+  })
+  t.same([...remap.keys()], [b, a, c])
+  t.same(main.value(remap.get(c) as Pointer), { id: 3 })
+  t.not(main.value(remap.get(c) as Pointer), other.value(c), 'copied')
+  t.equal(main.ref(remap.get(a) as Pointer, 'next'), remap.get(c))
+  t.equal(main.ref(remap.get(a) as Pointer, 'prev'), 0, 'not in other')
+  t.equal(main.size(), 4)
+
+  // refs to entries that are not live are not followed
+  other.ref(a, 'next', b)
+  other.free(b)
+  other.ref(c, 'next', ((1 << 8) | 2) as Pointer)
+  t.same([...main.merge(other, { roots: [a] }).keys()], [a])
+  t.same(
+    [...main.merge(other, { roots: [c, (9 << 8) as Pointer] }).keys()],
+    [c]
+  )
+})
+
+t.test('counted fields, generations and valueless sets', async t => {
+  const other = new PointerSet<null, typeof f>(f, 4, [], {
+    generations: true,
+    valueless: true,
+  })
+  const a = other.alloc(null)
+  const b = other.alloc(null, { next: a, prev: a })
+  other.free(other.alloc(null))
+  const main = new PointerSet<null, typeof f>(f, 4, [], {
+    generations: true,
+    counted: ['next'],
+  })
+  const old = main.alloc(null)
+  main.free(old)
+  const remap = main.merge(other, { roots: [b] })
+  t.same([...remap.keys()], [b, a], 'keys have generations')
+  const newA = remap.get(a) as Pointer
+  const newB = remap.get(b) as Pointer
+  t.equal(main.getIndex(newB), main.getIndex(old), 'freed slot reused')
+  t.not(newB, old, 'new generation')
+  t.equal(main.refCount(newA), 1, 'counted ref is counted')
+  t.equal(main.ref(remap.get(b) as Pointer, 'next'), newA)
+  t.equal(main.value(newA), null)
+  other.free(a)
+  t.throws(() => main.merge(other, { roots: [a] }), errStalePointer(a))
+})
+
+t.test('schemas must match', async t => {
+  const main = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  const extra = new PointerSet<null, ['other']>(['other'])
+  t.throws(() => main.merge(extra), errIncompatibleField('other'))
+  const swapped = new PointerSet<null, ['n']>(['n'])
+  t.throws(() => main.merge(swapped), errIncompatibleField('n'))
+  const types = new PointerSet<null, [], [['v', 'float32']]>([], 4, [
+    ['v', 'float32'],
+  ])
+  t.throws(() => main.merge(types), errIncompatibleField('v'))
+  const widths = new PointerSet<null, [], [['v', 'float64', 2]]>([], 4, [
+    ['v', 'float64', 2],
+  ])
+  t.throws(() => main.merge(widths), errIncompatibleField('v'))
+  const fewer = new PointerSet<null, ['prev'], ['n']>(['prev'], 4, ['n'])
+  const p = fewer.alloc(null, { prev: 0 as Pointer }, { n: 5 })
+  const remap = main.merge(fewer)
+  t.equal(main.raw(remap.get(p) as Pointer, 'n'), 5)
+})
@@ -0,0 +1,201 @@
+import t from 'tap'
+import { errNotWordField, Pointer, PointerSet } from '../'
+
+const f = ['next'] as const
+const r = [
+  'u32',
+  ['i32', 'int32'],
+  ['u16', 'uint16'],
+  ['i16', 'int16'],
+  ['u8', 'uint8'],
+  ['i8', 'int8'],
+  ['f32', 'float32'],
+  ['f64', 'float64'],
+  ['i64', 'bigint64'],
+  ['u64', 'biguint64'],
+] as const
+
+t.test('each type stores its own values', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  t.same(store.rawTypes, [
+    'uint32',
+    'int32',
+    'uint16',
+    'int16',
+    'uint8',
+    'int8',
+    'float32',
+    'float64',
+    'bigint64',
+    'biguint64',
+  ])
+  t.same(
+    store.rawFields.map(s => s.BYTES_PER_ELEMENT),
+    [4, 4, 2, 2, 1, 1, 4, 8, 8, 8]
+  )
+  t.same(
+    store.rawFields.map(s => s.byteLength),
+    [16, 16, 8, 8, 4, 4, 16, 32, 32, 32]
+  )
+
+  const a = store.alloc(null, {}, { i8: -1, f64: 0.1, i64: -(2n ** 62n) })
+  t.same(store.rawAll(a), {
+    u32: 0,
+    i32: 0,
+    u16: 0,
+    i16: 0,
+    u8: 0,
+    i8: -1,
+    f32: 0,
+    f64: 0.1,
+    i64: -(2n ** 62n),
+    u64: 0n,
+  })
+  t.equal(store.raw(a, 'i32', -5), -5)
+  t.equal(store.raw(a, 'i32'), -5)
+  store.raw(a, 'u16', 70000)
+  t.equal(store.raw(a, 'u16'), 70000 - 65536, 'wraps like the array')
+  store.raw(a, 'i16', -300)
+  t.equal(store.raw(a, 'i16'), -300)
+  store.raw(a, 'u8', 255)
+  t.equal(store.raw(a, 'u8'), 255)
+  store.raw(a, 'f32', 1.5)
+  t.equal(store.raw(a, 'f32'), 1.5)
+  store.raw(a, 'u64', 2n ** 64n - 1n)
+  t.equal(store.raw(a, 'u64'), 2n ** 64n - 1n)
+  const i64: bigint = store.raw(a, 'i64')
+  t.equal(i64, -(2n ** 62n))
+  const f64: number = store.raw(a, 'f64')
+  t.equal(f64, 0.1)
+  //@ts-expect-error
+  const wrong: number = store.raw(a, 'u64')
+  t.type(wrong, 'bigint')
+  //@ts-expect-error
+  t.throws(() => store.raw(a, 'u64', 1))
+
+  store.rawAll(a, { u32: 7, i8: -128, u64: 1n })
+  t.equal(store.raw(a, 'u32'), 7)
+  t.equal(store.raw(a, 'i8'), -128)
+  t.equal(store.raw(a, 'u64'), 1n)
+
+  // erase and wipeBlock zero with the right type
+  const b = store.alloc(null, {}, { i64: 5n, f32: 2 })
+  store.erase(b)
+  t.equal(store.rawFields[8][store.getIndex(b)], 0n)
+  t.equal(store.rawFields[6][store.getIndex(b)], 0)
+  store.wipeBlock()
+  t.same(store.rawAll(a), {
+    u32: 0,
+    i32: 0,
+    u16: 0,
+    i16: 0,
+    u8: 0,
+    i8: 0,
+    f32: 0,
+    f64: 0,
+    i64: 0n,
+    u64: 0n,
+  })
+
+  // new blocks get the same types
+  for (let i = 0; i < 4; i++) {
+    store.alloc(null)
+  }
+  t.equal(store.blocksCount(), 2)
+  t.same(
+    store.blocks[1].rawFields.map(s => s.constructor),
+    store.rawFields.map(s => s.constructor)
+  )
+})
+
+t.test('word views and atomics', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  const a = store.alloc(null, {}, { u32: 1, i32: -1 })
+  t.equal(store.raw8(a, 'u32')[0], 1)
+  t.equal(store.raw16(a, 'i32')[0], 0xffff)
+  t.equal(store.raw32(a, 'f32')[0], 0)
+  t.throws(() => store.raw8(a, 'u8'), errNotWordField('u8'))
+  t.throws(() => store.raw16(a, 'f64'), errNotWordField('f64'))
+  t.throws(() => store.raw32(a, 'i64'), errNotWordField('i64'))
+
+  t.equal(store.compareExchangeRaw(a, 'i32', -1, -2), -1)
+  t.equal(store.raw(a, 'i32'), -2)
+  t.equal(store.compareExchangeRaw(a, 'i64', 0n, 3n), 0n)
+  t.equal(store.compareExchangeRaw(a, 'i64', 0n, 4n), 3n)
+  t.equal(store.raw(a, 'i64'), 3n)
+  t.equal(store.compareExchangeRaw(a, 'i8', 0, -3), 0)
+  t.equal(store.raw(a, 'i8'), -3)
+  t.throws(() => store.compareExchangeRaw(a, 'f64', 0, 1), TypeError)
+})
+
+t.test('types are kept in snapshots and shared memory', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r, {
+    shared: true,
+  })
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(
+      store.alloc(
+        null,
+        {},
+        { i8: -i, f64: i / 4, u64: BigInt(i) << 40n, u32: i }
+      )
+    )
+  }
+  const check = (
+    s: PointerSet<null, typeof f, typeof r>,
+    name: string
+  ) => {
+    t.same(s.rawTypes, store.rawTypes, name)
+    for (let i = 0; i < ptrs.length; i++) {
+      t.equal(s.raw(ptrs[i], 'i8'), -i, name)
+      t.equal(s.raw(ptrs[i], 'f64'), i / 4, name)
+      t.equal(s.raw(ptrs[i], 'u64'), BigInt(i) << 40n, name)
+      t.equal(s.raw(ptrs[i], 'u32'), i, name)
+    }
+  }
+  const buf = store.toBuffer()
+  check(PointerSet.fromBuffer(buf), 'fromBuffer')
+  const attached = PointerSet.attach<null, typeof f, typeof r>(
+    store.share()
+  )
+  check(attached, 'attach')
+  attached.raw(ptrs[5], 'i64', -1n)
+  t.equal(store.raw(ptrs[5], 'i64'), -1n)
+
+  // plain uint32 fields are still declared with just their names
+  const plain = new PointerSet<null, typeof f, ['n']>(f, 4, ['n'])
+  t.same(plain.fieldLists(), [['next'], ['n']])
+  t.same(store.fieldLists()[1].slice(0, 2), ['u32', ['i32', 'int32']])
+})
+
+t.test('compact moves typed values', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  const a = store.alloc(null)
+  store.alloc(null)
+  store.alloc(null)
+  const d = store.alloc(null, {}, { f64: -1.25, i64: -9n })
+  store.free(a)
+  const remap = store.compact()
+  const moved = remap.get(d) as Pointer
+  t.equal(store.raw(moved, 'f64'), -1.25)
+  t.equal(store.raw(moved, 'i64'), -9n)
+})
+
+t.test('invalid raw field types', async t => {
+  t.throws(
+    () =>
+      //@ts-expect-error
+      new PointerSet(f, 4, [['x', 'uint64']]),
+    TypeError('invalid type for raw field x: uint64')
+  )
+  t.throws(
+    () =>
+      //@ts-expect-error
+      new PointerSet(f, 4, [['x', 'toString']]),
+    TypeError('invalid type for raw field x: toString')
+  )
+  t.throws(() => new PointerSet(f, 4, [['next', 'int8']]), {
+    message: 'invalid raw field next, specified in next',
+  })
+})
@@ -0,0 +1,246 @@
+import t from 'tap'
+import {
+  errFreedPointer,
+  errRawAsPointer,
+  errStalePointer,
+  errUnknownPointerField,
+  Pointer,
+  PointerSet,
+} from '../'
+
+const f = ['next', 'prev'] as const
+const r = ['n'] as const
+const counted = ['next'] as const
+
+t.test('refs in counted fields are counted', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r, {
+    counted,
+  })
+  t.same(store.countedFields, [true, false])
+  const a = store.alloc('a')
+  t.equal(store.refCount(a), 0)
+  const b = store.alloc('b', { next: a, prev: a })
+  t.equal(store.refCount(a), 1, 'only counted fields')
+  const c = store.alloc('c')
+  store.refAll(c, { next: a, prev: b })
+  t.equal(store.refCount(a), 2)
+  t.equal(store.refCount(b), 0)
+
+  // writing the same ref again is a no-op
+  store.ref(c, 'next', a)
+  t.equal(store.refCount(a), 2)
+
+  // overwriting releases the old one
+  store.ref(c, 'next', b)
+  t.equal(store.refCount(a), 1)
+  t.equal(store.refCount(b), 1)
+  store.ref(b, 'prev', c)
+  t.equal(store.refCount(c), 0, 'uncounted field')
+
+  // reaching zero frees it, and releases what it refers to
+  store.ref(c, 'next', 0 as Pointer)
+  t.equal(store.value(b), undefined, 'b was freed')
+  t.equal(store.value(a), undefined, 'a was freed by b')
+  t.equal(store.value(c), 'c')
+  t.equal(store.size(), 2)
+
+  // retain and release hold refs from outside the set
+  const d = store.alloc('d')
+  const e = store.alloc('e', { next: d })
+  t.equal(store.retain(e), 1)
+  t.equal(store.retain(e), 2)
+  t.equal(store.release(e), 1)
+  t.equal(store.value(e), 'e')
+  t.equal(store.release(e), 0)
+  t.equal(store.value(e), undefined)
+  t.equal(store.value(d), undefined)
+
+  // releasing an entry that was never retained frees it
+  t.equal(store.release(c), 0)
+  t.equal(store.size(), 1)
+})
+
+t.test('free and erase release the counted refs', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4, [], { counted })
+  const a = store.alloc('a')
+  store.retain(a)
+  const b = store.alloc('b', { next: a })
+  const c = store.alloc('c', { next: a })
+  t.equal(store.refCount(a), 3)
+  store.free(b)
+  t.equal(store.refCount(a), 2)
+  t.equal(store.ref(b, 'next'), 0, 'counted fields cleared on free')
+  store.erase(c)
+  t.equal(store.refCount(a), 1)
+  store.erase(a)
+  t.equal(store.size(), 1)
+  t.equal(store.value(a), undefined)
+})
+
+t.test('long chains do not overflow the stack', async t => {
+  const store = new PointerSet<null, typeof f>(f, 256, [], { counted })
+  let head = store.alloc(null)
+  for (let i = 0; i < 100_000; i++) {
+    head = store.alloc(null, { next: head })
+  }
+  t.equal(store.size(), 100_002)
+  store.retain(head)
+  store.release(head)
+  t.equal(store.size(), 1)
+})
+
+t.test('compare and exchange on counted fields', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], { counted })
+  const a = store.alloc(null)
+  const b = store.alloc(null)
+  const c = store.alloc(null, { next: a })
+  store.retain(b)
+  t.equal(store.compareExchangeRef(c, 'next', b, b), a, 'not exchanged')
+  t.equal(store.refCount(a), 1)
+  t.equal(store.compareExchangeRef(c, 'next', a, b), a)
+  t.equal(store.refCount(b), 2)
+  t.equal(store.value(a), undefined, 'a was released')
+  t.equal(store.compareExchangeRef(c, 'next', b, 0 as Pointer), b)
+  t.equal(store.refCount(b), 1)
+  t.equal(store.compareExchangeRef(c, 'next', 0 as Pointer, b), 0)
+  t.equal(store.refCount(b), 2)
+})
+
+t.test('refs to entries that are not live are not counted', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], { counted })
+  const a = store.alloc(null)
+  const missing = (7 << 8) as Pointer
+  store.ref(a, 'next', missing)
+  store.ref(a, 'next', (a + 1) as Pointer)
+  store.free(a)
+  t.equal(store.size(), 1)
+})
+
+t.test('counts move with compact and collect', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], { counted })
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(store.alloc(null))
+  }
+  store.ref(ptrs[5], 'next', ptrs[4])
+  store.ref(ptrs[0], 'next', ptrs[5])
+  store.free(ptrs[1])
+  store.free(ptrs[2])
+  const remap = store.compact()
+  const moved4 = remap.get(ptrs[4]) ?? ptrs[4]
+  const moved5 = remap.get(ptrs[5]) ?? ptrs[5]
+  t.equal(store.refCount(moved4), 1)
+  t.equal(store.refCount(moved5), 1)
+
+  // garbage gives up its refs, but entries that are still reachable
+  // through other fields are not freed along with it
+  store.ref(ptrs[3], 'prev', moved5)
+  t.equal(store.collect([ptrs[3]], ['prev']), 2)
+  t.same(new Set(store.pointers()), new Set([ptrs[3], moved5]))
+  t.equal(store.refCount(moved5), 0)
+  t.equal(store.collect([ptrs[3]], ['prev']), 0)
+})
+
+t.test('collect never frees reachable entries', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4, [], { counted })
+  const root = store.alloc('root')
+  const garbage = store.alloc('garbage', { next: root })
+  t.equal(store.refCount(root), 1)
+  t.equal(store.collect([root]), 1)
+  t.equal(store.describe(root).live, true)
+  t.equal(store.value(root), 'root')
+  t.equal(store.describe(garbage).live, false)
+  t.equal(store.refCount(root), 0, 'count of the dropped ref removed')
+
+  // reachable through a counted ref from garbage, and a plain one
+  const a = store.alloc('a')
+  const b = store.alloc('b')
+  store.ref(root, 'prev', a)
+  store.ref(a, 'next', b)
+  const c = store.alloc('c', { next: a })
+  const d = store.alloc('d', { next: c })
+  t.equal(store.refCount(a), 1)
+  t.equal(store.collect([root]), 2, 'c and d')
+  t.same(
+    [root, a, b].map(p => store.value(p)),
+    ['root', 'a', 'b']
+  )
+  t.equal(store.refCount(a), 0)
+  t.equal(store.refCount(b), 1)
+  t.equal(store.describe(c).live, false)
+  t.equal(store.describe(d).live, false)
+})
+
+t.test('counts are kept in snapshots and shared memory', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    counted,
+    shared: true,
+  })
+  const a = store.alloc(null)
+  const b = store.alloc(null, { next: a })
+  store.retain(b)
+  store.alloc(null)
+  store.alloc(null, { next: a })
+  const loaded = PointerSet.fromBuffer<null, typeof f>(store.toBuffer())
+  t.same(loaded.countedFields, [true, false])
+  t.equal(loaded.refCount(a), 2)
+  t.equal(loaded.refCount(b), 1)
+  const attached = PointerSet.attach<null, typeof f>(store.share())
+  t.same(attached.countedFields, [true, false])
+  attached.release(b)
+  t.equal(store.refCount(a), 1)
+  t.equal(store.blocks[1].countedFields, store.countedFields)
+
+  const plain = new PointerSet<null, typeof f>(f)
+  t.same(PointerSet.fromBuffer(plain.toBuffer()).countedFields, [
+    false,
+    false,
+  ])
+})
+
+t.test('with generations and checked', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    counted,
+    generations: true,
+    checked: true,
+  })
+  const a = store.alloc(null)
+  const b = store.alloc(null, { next: a })
+  t.equal(store.release(b), 0)
+  t.throws(() => store.refCount(a), errStalePointer(a))
+  const c = store.alloc(null)
+  const plain = new PointerSet<null, typeof f>(f, 4, [], {
+    counted,
+    checked: true,
+  })
+  const d = plain.alloc(null)
+  plain.alloc(null)
+  plain.free(d)
+  t.throws(() => plain.retain(d), errFreedPointer(d))
+  t.equal(store.retain(c), 1)
+})
+
+t.test('invalid counted fields', async t => {
+  t.throws(
+    () => new PointerSet(f, 4, r, { counted: ['n'] }),
+    errRawAsPointer('n')
+  )
+  t.throws(
+    () => new PointerSet(f, 4, r, { counted: ['nope'] }),
+    errUnknownPointerField('nope')
+  )
+  t.throws(
+    () => new PointerSet(f, 4, r, { counted, concurrent: true }),
+    TypeError('counted fields are not allowed in concurrent sets')
+  )
+  const store = new PointerSet<null, typeof f>(f)
+  const a = store.alloc(null)
+  t.equal(store.counts, undefined)
+  t.throws(
+    () => store.retain(a),
+    TypeError('PointerSet does not count references')
+  )
+  t.throws(() => store.release(0 as Pointer), {
+    message: 'cannot read from null pointer',
+  })
+})
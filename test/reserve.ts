@@ -0,0 +1,125 @@
+import t from 'tap'
+import { Pointer, PointerSet } from '../'
+
+const f = ['next'] as const
+
+// the slow way, to check the counter against
+const countAvailable = (store: PointerSet<null, typeof f>) => {
+  let available = 0
+  for (let i = 0; i < store.blocksCount(); i++) {
+    available += store.available(i)
+  }
+  return available
+}
+
+t.test('free space is counted as entries come and go', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4)
+  t.equal(store.totalAvailable(), 3, 'null pointer is not available')
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 10; i++) {
+    ptrs.push(store.alloc(null))
+    t.equal(store.totalAvailable(), countAvailable(store))
+  }
+  t.equal(store.totalAvailable(), 1)
+  store.free(ptrs[3])
+  store.free(ptrs[3])
+  store.erase(ptrs[4])
+  t.equal(store.totalAvailable(), 3, 'freeing twice counts once')
+  store.free(ptrs[9])
+  store.free(ptrs[0])
+  store.free(ptrs[1])
+  store.free(ptrs[2])
+  t.equal(store.totalAvailable(), countAvailable(store))
+  store.blocks[1].wipeBlock()
+  t.equal(store.totalAvailable(), countAvailable(store))
+  store.blocks[2].drop()
+  t.equal(store.blocksCount(), 2)
+  t.equal(store.totalAvailable(), countAvailable(store))
+
+  const remap = store.compact()
+  t.equal(remap.size, 0)
+  t.equal(store.totalAvailable(), countAvailable(store))
+  store.wipeBlock()
+  t.equal(store.totalAvailable(), 3)
+  t.equal(store.blocks[0].totalAvailable(), store.totalAvailable())
+})
+
+t.test('reserve space up front', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4)
+  t.equal(store.reserve(2), 0, 'already have room')
+  t.equal(store.reserve(10), 2)
+  t.equal(store.blocksCount(), 3)
+  t.equal(store.totalAvailable(), 11)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 11; i++) {
+    ptrs.push(store.alloc(null))
+  }
+  t.equal(store.blocksCount(), 3, 'no blocks created by alloc')
+  t.equal(store.totalAvailable(), 0)
+  store.alloc(null)
+  t.equal(store.blocksCount(), 4)
+})
+
+t.test('trim empty blocks, keeping some free space', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4)
+  store.reserve(20)
+  t.equal(store.blocksCount(), 6)
+  const a = store.alloc(null)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(store.alloc(null))
+  }
+  t.equal(store.totalAvailable(), 16)
+  t.equal(store.trim({ keepFree: 10 }), 1)
+  t.equal(store.totalAvailable(), 12)
+  t.equal(store.trim({ keepFree: 9 }), 0, 'would leave too little')
+  t.equal(store.trim(), 3)
+  t.equal(store.blocksCount(), 2)
+  t.equal(store.trim(), 0, 'stops at the first block in use')
+
+  for (const p of ptrs) {
+    store.free(p)
+  }
+  t.equal(store.trim(), 1)
+  t.equal(store.blocksCount(), 1)
+  t.equal(store.totalAvailable(), 2)
+  t.equal(store.trim(), 0, 'root block is never dropped')
+  t.equal(store.alloc(null), a + 1)
+})
+
+t.test('snapshots, shared and concurrent sets', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], { shared: true })
+  store.reserve(8)
+  const a = store.alloc(null)
+  store.alloc(null)
+  store.free(a)
+  const loaded = PointerSet.fromBuffer<null, typeof f>(store.toBuffer())
+  t.equal(loaded.totalAvailable(), store.totalAvailable())
+  t.equal(loaded.totalAvailable(), countAvailable(loaded))
+
+  // the count is kept in shared memory, along with the blocks
+  const attached = PointerSet.attach<null, typeof f>(store.share())
+  t.equal(attached.totalAvailable(), store.totalAvailable())
+  attached.alloc(null)
+  t.equal(store.totalAvailable(), attached.totalAvailable())
+  store.reserve(20)
+  attached.attachBlock(store.blocks[3].shareBlock())
+  t.equal(attached.totalAvailable(), store.totalAvailable())
+
+  const conc = new PointerSet<null, typeof f>(f, 4, [], {
+    concurrent: true,
+  })
+  const other = PointerSet.attach<null, typeof f>(conc.share())
+  t.equal(conc.reserve(6), 1)
+  t.equal(other.totalAvailable(), 7, 'counts blocks not yet attached')
+  t.throws(() => other.reserve(8), {
+    message:
+      'cannot grow concurrent set until blocks created by other ' +
+      'threads are attached',
+  })
+  other.attachBlock(conc.blocks[1].shareBlock())
+  t.equal(other.reserve(8), 1)
+  other.alloc(null)
+  t.equal(conc.totalAvailable(), 10)
+  t.throws(() => conc.trim(), { message: 'cannot trim a concurrent set' })
+})
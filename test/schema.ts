@@ -0,0 +1,171 @@
+import t from 'tap'
+import { errFieldExists, errUnknownField, Pointer, PointerSet } from '../'
+
+const f = ['next'] as const
+const r = ['n', ['v', 'float64']] as const
+
+t.test('add fields to a set in use', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(store.alloc(`${i}`, { next: ptrs[i - 1] }, { n: i }))
+  }
+  t.equal(store.blocksCount(), 2)
+
+  const linked = store.addField('prev')
+  t.equal(linked, store, 'same set, with a wider type')
+  t.same(linked.fieldLists()[0], ['next', 'prev'])
+  t.equal(linked.ref(ptrs[5], 'prev'), 0, 'zeroed in every block')
+  linked.ref(ptrs[4], 'prev', ptrs[5])
+  t.equal(linked.ref(ptrs[4], 'prev'), ptrs[5])
+  t.same(linked.refAll(ptrs[4]), { next: ptrs[3], prev: ptrs[5] })
+
+  const typed = linked
+    .addRawField(['score', 'int16'])
+    .addRawField(['vec', 'uint8', 3])
+    .addRawField('count')
+  t.same(typed.fieldLists()[1], [
+    'n',
+    ['v', 'float64'],
+    ['score', 'int16'],
+    ['vec', 'uint8', 3],
+    'count',
+  ])
+  t.equal(typed.raw(ptrs[5], 'score'), 0)
+  t.equal(typed.raw(ptrs[5], 'count'), 0, 'uint32 is zeroed too')
+  t.same([...typed.rawView(ptrs[5], 'vec')], [0, 0, 0])
+  typed.raw(ptrs[5], 'score', -2)
+  t.equal(typed.raw(ptrs[5], 'score'), -2)
+  t.equal(typed.raw(ptrs[5], 'n'), 5, 'existing fields untouched')
+
+  // new blocks and allocations use the new fields
+  const p = typed.alloc(
+    'new',
+    { prev: ptrs[0] },
+    { score: 3, vec: [1, 2] }
+  )
+  for (let i = 0; i < 4; i++) {
+    typed.alloc('more')
+  }
+  t.equal(typed.blocksCount(), 3)
+  t.equal(typed.blocks[2].fields.length, 2)
+  t.equal(typed.blocks[2].rawFields.length, 5)
+  t.same(typed.rawAll(p), {
+    n: 0,
+    v: 0,
+    score: 3,
+    vec: new Uint8Array([1, 2, 0]),
+    count: 0,
+  })
+
+  // snapshots have the new fields
+  const codec = {
+    encode: (s: string) => new TextEncoder().encode(s),
+    decode: (b: Uint8Array) => new TextDecoder().decode(b),
+  }
+  const loaded = PointerSet.fromBuffer(
+    typed.toBuffer(codec),
+    codec
+  ) as typeof typed
+  t.same(loaded.fieldLists(), typed.fieldLists())
+  t.equal(loaded.raw(ptrs[5], 'score'), -2)
+
+  t.throws(() => typed.addField('n'), errFieldExists('n'))
+  t.throws(() => typed.addRawField('prev'), errFieldExists('prev'))
+  t.throws(
+    //@ts-expect-error
+    () => typed.addRawField(['x', 'uint64']),
+    TypeError('invalid type for raw field x: uint64')
+  )
+})
+
+t.test('remove fields', async t => {
+  const store = new PointerSet<string, ['a', 'b', 'c'], typeof r>(
+    ['a', 'b', 'c'],
+    4,
+    r
+  )
+  const x = store.alloc('x')
+  const y = store.alloc('y', { a: x, b: x, c: x }, { n: 1, v: 1.5 })
+  const smaller = store.removeField('b')
+  t.same(smaller.fieldLists(), [
+    ['a', 'c'],
+    ['n', ['v', 'float64']],
+  ])
+  t.same(smaller.refAll(y), { a: x, c: x })
+  //@ts-expect-error
+  t.throws(() => smaller.ref(y, 'b'))
+  const raws = smaller.removeField('n')
+  t.same(raws.fieldLists()[1], [['v', 'float64']])
+  t.equal(raws.raw(y, 'v'), 1.5)
+  t.equal(raws.names.v, -1)
+  t.equal(raws.rawFields.length, 1)
+  t.throws(
+    //@ts-expect-error
+    () => raws.removeField('n'),
+    errUnknownField('n')
+  )
+
+  // a field can be added back after removing it
+  const back = raws.addRawField('n')
+  t.equal(back.raw(y, 'n'), 0)
+  t.same(back.fieldLists()[1], [['v', 'float64'], 'n'])
+})
+
+t.test('counted fields', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4)
+  const a = store.alloc('a')
+  const counted = store.addField('owner', { counted: true })
+  t.same(counted.countedFields, [false, true])
+  t.type(counted.counts, Uint32Array)
+  const b = counted.alloc('b', { owner: a })
+  const c = counted.alloc('c', { owner: a, next: b })
+  for (let i = 0; i < 3; i++) {
+    counted.alloc('filler', { owner: c })
+  }
+  t.type(counted.blocks[1].counts, Uint32Array)
+  t.equal(counted.refCount(a), 2)
+  t.equal(counted.refCount(c), 3)
+  counted.retain(c)
+
+  // removing a counted field releases its refs
+  counted.addField('parent', { counted: true })
+  const uncounted = counted.removeField('owner')
+  t.same(uncounted.countedFields, [false, true])
+  t.equal(uncounted.value(a), undefined, 'released')
+  t.equal(uncounted.value(b), 'b', 'not referred to by the field')
+  t.equal(uncounted.value(c), 'c', 'still retained')
+  t.equal(uncounted.refCount(c), 1)
+  t.equal(uncounted.size(), 6)
+})
+
+t.test('bytes fields and shared sets', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4)
+  t.equal(store.arena, undefined)
+  store.alloc(null)
+  store.alloc(null)
+  store.alloc(null)
+  const bytes = store.addRawField(['name', 'bytes'])
+  t.ok(bytes.arena)
+  const p = bytes.alloc(null, {}, { name: 'hello' })
+  t.equal(bytes.blocks[1].arena, bytes.arena)
+  t.equal(bytes.getString(p, 'name'), 'hello')
+  bytes.addRawField(['other', 'bytes'])
+  bytes.removeField('name')
+  t.equal(bytes.arena?.garbage, 5)
+  t.equal(bytes.compactArena(), 5)
+
+  const shared = new PointerSet<null, typeof f>(f, 4, [], { shared: true })
+  t.throws(
+    () => shared.addField('x'),
+    TypeError('cannot change the fields of a shared set')
+  )
+  t.throws(
+    () => shared.addRawField('x'),
+    TypeError('cannot change the fields of a shared set')
+  )
+  t.throws(
+    () => shared.removeField('next'),
+    TypeError('cannot change the fields of a shared set')
+  )
+})
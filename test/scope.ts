@@ -0,0 +1,77 @@
+import t from 'tap'
+import { errStalePointer, Pointer, PointerRange, PointerSet } from '../'
+
+const f = ['next'] as const
+const disposeSymbol: symbol =
+  (Symbol as { dispose?: symbol }).dispose ?? Symbol.for('Symbol.dispose')
+
+t.test('dispose frees what was allocated in the scope', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4)
+  const outside = store.alloc('outside')
+  const s = store.scope()
+  const a = s.alloc('a')
+  const b = s.alloc('b', { next: a })
+  const many = s.allocMany(5) as Uint32Array
+  t.equal(store.size(), 9)
+  t.equal(s.pointers.size, 7)
+
+  t.equal(s.keep(b), true)
+  t.equal(s.keep(b), false, 'already kept')
+  t.equal(s.keep(outside), false, 'not in the scope')
+  store.free(many[0] as Pointer)
+
+  t.equal(s.dispose(), 5, 'skips the one already freed')
+  t.equal(s.pointers.size, 0)
+  t.same(
+    [...store.entries()],
+    [
+      [outside, 'outside'],
+      [b, 'b'],
+    ]
+  )
+  t.equal(store.ref(b, 'next'), a, 'kept entry is untouched')
+  t.equal(s.dispose(), 0, 'nothing left')
+
+  // freed newest first, so the space is reclaimed like a stack
+  t.equal(store.totalAvailable(), store.blocksCount() * 4 - 3)
+  t.equal(store.blocks[1].nextFree, 0)
+  t.equal(store.freeList.length, 1)
+
+  // the scope can be used again after disposing
+  store.alloc('fills the root block')
+  const range = s.allocMany(2) as PointerRange
+  t.same(range, { start: 512, end: 514 })
+  t.equal(s.pointers.size, 2)
+  t.equal((s as any)[disposeSymbol](), 2, 'Symbol.dispose')
+  t.equal(store.size(), 4)
+})
+
+t.test('checked, generations and refcounts', async t => {
+  const store = new PointerSet<string, typeof f>(f, 4, [], {
+    checked: true,
+    generations: true,
+    counted: ['next'],
+  })
+  const s = store.scope()
+  const a = s.alloc('a')
+  const b = s.alloc('b', { next: a })
+  const c = s.alloc('c')
+  store.retain(b)
+  store.release(b) // frees b, and a along with it
+  t.equal(store.size(), 2)
+  store.free(c)
+  const reused = store.alloc('reused')
+  t.equal(store.getIndex(reused), store.getIndex(a), 'same slot')
+  t.throws(() => store.free(a), errStalePointer(a))
+  t.equal(s.dispose(), 0, 'stale and freed entries are skipped')
+  t.equal(store.value(reused), 'reused')
+
+  // a block's scope frees in the whole set
+  const fromBlock = store.blocks[0].scope()
+  fromBlock.allocMany(6)
+  t.equal(store.blocksCount(), 2)
+  t.equal(fromBlock.dispose(), 6)
+  t.equal(store.size(), 2)
+  t.equal(store.scope().dispose(), 0)
+  t.notOk(store.isAllocated((9 << 8) as Pointer), 'unknown block')
+})
@@ -0,0 +1,274 @@
+import t from 'tap'
+import {
+  errInvalidSnapshot,
+  nullCodec,
+  Pointer,
+  PointerSet,
+  ValueCodec,
+} from '../'
+
+const stringCodec: ValueCodec<string> = {
+  encode: (s: string) => new TextEncoder().encode(s),
+  decode: (b: Uint8Array) => new TextDecoder().decode(b),
+}
+
+t.test(
+  'round trip with values, refs, raws, and freed entries',
+  async t => {
+    const f = ['next', 'prev'] as const
+    const r = ['n'] as const
+    const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+    const pointers: Pointer[] = []
+    let prev = store.alloc('head')
+    pointers.push(prev)
+    for (let i = 0; i < 10; i++) {
+      const p = store.alloc(`entry ${i}`, { prev }, { n: i * 1000 })
+      store.ref(prev, 'next', p)
+      pointers.push(p)
+      prev = p
+    }
+    // free some in the middle, so there's stuff in the free lists
+    const freed = [pointers[2], pointers[5], pointers[6]]
+    for (const p of freed) {
+      store.free(p)
+    }
+    const live = pointers.filter(p => !freed.includes(p))
+
+    const buf = store.toBuffer(stringCodec)
+    t.type(buf, Uint8Array)
+    const loaded = PointerSet.fromBuffer<string, typeof f, typeof r>(
+      buf,
+      stringCodec
+    )
+    t.not(loaded, store)
+    t.same(loaded.names, store.names)
+    t.equal(loaded.blockSize, store.blockSize)
+    t.equal(loaded.wordSize, store.wordSize)
+    t.equal(loaded.blocksCount(), store.blocksCount())
+    t.equal(loaded.size(), store.size())
+    t.equal(loaded.totalAvailable(), store.totalAvailable())
+    for (const p of live) {
+      t.equal(loaded.value(p), store.value(p))
+      t.same(loaded.refAll(p), store.refAll(p))
+      t.same(loaded.rawAll(p), store.rawAll(p))
+    }
+    for (const p of freed) {
+      t.equal(loaded.value(p), undefined)
+    }
+    for (let i = 0; i < store.blocks.length; i++) {
+      t.equal(loaded.blocks[i].nextFree, store.blocks[i].nextFree)
+      t.equal(
+        loaded.blocks[i].freeList.length,
+        store.blocks[i].freeList.length
+      )
+      t.equal(loaded.blocks[i].blocks, loaded.blocks, 'blocks shared')
+    }
+
+    // free list is restored, so allocs reuse the same slots in both
+    for (let i = 0; i < 6; i++) {
+      t.equal(loaded.alloc('new'), store.alloc('new'))
+    }
+    t.equal(loaded.blocksCount(), store.blocksCount())
+  }
+)
+
+t.test('default null codec', async t => {
+  const f = ['x'] as const
+  const store = new PointerSet<null, typeof f>(f, 300)
+  const a = store.alloc(null)
+  const b = store.alloc(null, { x: a })
+  const loaded = PointerSet.fromBuffer<null, typeof f>(store.toBuffer())
+  t.equal(loaded.wordSize, 2)
+  t.equal(loaded.value(a), null)
+  t.equal(loaded.ref(b, 'x'), a)
+  t.equal(loaded.size(), 3)
+
+  const strings = new PointerSet<string, typeof f>(f)
+  strings.alloc('x')
+  t.throws(() => strings.toBuffer(), {
+    message: 'nullCodec can only encode null values',
+  })
+  t.equal(nullCodec.decode(new Uint8Array(0)), null)
+})
+
+t.test('full blocks are not available after loading', async t => {
+  const store = new PointerSet<null, []>([], 2)
+  store.alloc(null)
+  store.alloc(null)
+  const loaded = PointerSet.fromBuffer<null, []>(store.toBuffer())
+  t.equal(loaded.blocksAvail.size, 1)
+  t.equal(loaded.totalAvailable(), 1)
+  t.equal(loaded.alloc(null), store.alloc(null))
+})
+
+t.test('invalid snapshots', async t => {
+  const store = new PointerSet<null, ['x']>(['x'], 4)
+  store.alloc(null)
+  const p = store.alloc(null)
+  store.alloc(null)
+  store.free(p)
+  const good = store.toBuffer()
+
+  t.throws(
+    () => PointerSet.fromBuffer(new Uint8Array(2)),
+    errInvalidSnapshot('unexpected end of data')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(good.slice(0, 6)),
+    errInvalidSnapshot('unexpected end of data')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(good.slice(0, good.length - 4)),
+    errInvalidSnapshot('unexpected end of data')
+  )
+
+  const badMagic = good.slice()
+  badMagic[0] = 0
+  t.throws(
+    () => PointerSet.fromBuffer(badMagic),
+    errInvalidSnapshot('bad magic bytes')
+  )
+
+  const badVersion = good.slice()
+  new DataView(badVersion.buffer).setUint32(4, 99, true)
+  t.throws(
+    () => PointerSet.fromBuffer(badVersion),
+    errInvalidSnapshot('unsupported version 99')
+  )
+
+  // rewrite the header with some bad data
+  const len = new DataView(good.buffer).getUint32(8, true)
+  const withJson = (text: string) => {
+    const json = new TextEncoder().encode(text)
+    const rest = good.subarray(12 + ((len + 3) & ~3))
+    const out = new Uint8Array(12 + ((json.length + 3) & ~3) + rest.length)
+    out.set(good.subarray(0, 12))
+    new DataView(out.buffer).setUint32(8, json.length, true)
+    out.set(json, 12)
+    out.set(rest, 12 + ((json.length + 3) & ~3))
+    return out
+  }
+  const withHeader = (fn: (h: any) => void) => {
+    const h = JSON.parse(
+      new TextDecoder().decode(good.subarray(12, 12 + len))
+    )
+    fn(h)
+    return withJson(JSON.stringify(h))
+  }
+  t.throws(
+    () => PointerSet.fromBuffer(withJson('{"blocks":[')),
+    errInvalidSnapshot('header is not valid JSON')
+  )
+  for (const json of ['null', '[]', '{}', '{"blocks":[]}']) {
+    t.throws(
+      () => PointerSet.fromBuffer(withJson(json)),
+      errInvalidSnapshot('invalid header'),
+      json
+    )
+  }
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => delete h.blocks)),
+    errInvalidSnapshot('invalid header')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => (h.blocks = [null]))),
+    errInvalidSnapshot('invalid header')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => delete h.fields)),
+    errInvalidSnapshot('invalid header')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => (h.rawFields = {}))),
+    errInvalidSnapshot('invalid header')
+  )
+  for (const blockSize of [2.5, -5, 0, 65537, '4', undefined]) {
+    t.throws(
+      () =>
+        PointerSet.fromBuffer(withHeader(h => (h.blockSize = blockSize))),
+      errInvalidSnapshot('invalid block size ' + blockSize),
+      String(blockSize)
+    )
+  }
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => (h.fields = [1]))),
+    errInvalidSnapshot('invalid field names')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => (h.rawFields = [[null]]))),
+    errInvalidSnapshot('invalid field names')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => (h.counted = 'x'))),
+    errInvalidSnapshot('invalid field names')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => (h.counted = [{}]))),
+    errInvalidSnapshot('invalid field names')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => (h.blocks = [{}]))),
+    errInvalidSnapshot('invalid free space in block 0')
+  )
+  t.throws(
+    () =>
+      PointerSet.fromBuffer(withHeader(h => (h.blocks[0].freeCount = -1))),
+    errInvalidSnapshot('invalid free space in block 0')
+  )
+  t.equal(PointerSet.fromBuffer(withHeader(() => {})).size(), 3)
+  t.throws(
+    () =>
+      PointerSet.fromBuffer(
+        withHeader(h => (h.littleEndian = !h.littleEndian))
+      ),
+    errInvalidSnapshot('byte order does not match this platform')
+  )
+  t.throws(
+    () => PointerSet.fromBuffer(withHeader(h => (h.wordSize = 2))),
+    errInvalidSnapshot('word size does not match block size')
+  )
+  t.throws(
+    () =>
+      PointerSet.fromBuffer(withHeader(h => (h.blocks[0].nextFree = 5))),
+    errInvalidSnapshot('invalid free space in block 0')
+  )
+  t.throws(
+    () =>
+      PointerSet.fromBuffer(withHeader(h => (h.blocks[0].freeCount = 4))),
+    errInvalidSnapshot('invalid free space in block 0')
+  )
+  t.throws(
+    () =>
+      PointerSet.fromBuffer(withHeader(h => (h.blocks[0].nextFree = 2))),
+    errInvalidSnapshot('invalid free list in block 0')
+  )
+})
+
+t.test('unused slots are not written', async t => {
+  const f = ['next'] as const
+  const r = [['key', 'uint8', 4]] as const
+  const make = () => {
+    const store = new PointerSet<null, typeof f, typeof r>(f, 8, r, {
+      generations: true,
+      counted: ['next'],
+    })
+    const p = store.alloc(null)
+    const q = store.alloc(null, { next: p }, { key: [1, 2, 3, 4] })
+    return { store, q }
+  }
+  const { store: clean } = make()
+  const { store: dirty, q } = make()
+  // put junk in the null slot and past nextFree, like leftover memory
+  for (const slab of [dirty.fields[0], dirty.counts as Uint32Array]) {
+    slab.fill(0xdead, 3)[0] = 0xdead
+  }
+  dirty.rawFields[0].fill(0xff, 3 * 4).fill(0xff, 0, 4)
+  t.same(dirty.toBuffer(), clean.toBuffer())
+  const loaded = PointerSet.fromBuffer<null, typeof f, typeof r>(
+    dirty.toBuffer()
+  )
+  t.equal(loaded.fields[0][3], 0)
+  t.same(loaded.rawAll(q), {
+    key: new Uint8Array([1, 2, 3, 4]),
+  })
+})
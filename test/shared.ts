@@ -0,0 +1,194 @@
+import t from 'tap'
+import { resolve } from 'path'
+import { Worker } from 'worker_threads'
+import {
+  Pointer,
+  PointerSet,
+  SharedBlockDescriptor,
+  SharedPointerSetDescriptor,
+} from '../'
+
+const f = ['next'] as const
+const r = ['n'] as const
+
+t.test('slabs are on shared memory', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r, {
+    shared: true,
+  })
+  t.equal(store.shared, true)
+  store.alloc(null)
+  store.alloc(null)
+  store.alloc(null)
+  store.alloc(null)
+  t.equal(store.blocksCount(), 2)
+  for (const block of store.blocks) {
+    t.equal(block.shared, true)
+    t.type(block.fields[0].buffer, SharedArrayBuffer)
+    t.type(block.rawFields[0].buffer, SharedArrayBuffer)
+    t.type(block.freeList.data.buffer, SharedArrayBuffer)
+    t.type(block.state.buffer, SharedArrayBuffer)
+  }
+
+  // root block is full, so not available in the attached copy
+  const attached = PointerSet.attach<null, typeof f, typeof r>(
+    store.share()
+  )
+  t.equal(attached.blocksAvail.has(attached), false)
+  t.equal(attached.blocksAvail.has(attached.blocks[1]), true)
+
+  const big = new PointerSet<null, typeof f>(f, 1000, [], { shared: true })
+  const bp = big.alloc(null)
+  big.alloc(null, { next: bp })
+  big.free(bp)
+  const bigAttached = PointerSet.attach<null, typeof f>(big.share())
+  t.type(bigAttached.freeList.data, Uint16Array)
+  t.equal(bigAttached.alloc(null), bp)
+
+  const plain = new PointerSet<null, typeof f>(f)
+  t.equal(plain.shared, false)
+  t.equal(plain.live, undefined)
+  t.throws(() => plain.share(), TypeError('PointerSet is not shared'))
+  t.throws(
+    () => plain.attachBlock(store.blocks[1].shareBlock()),
+    TypeError('PointerSet is not shared')
+  )
+})
+
+t.test('attach in the same thread', async t => {
+  const blocks: SharedBlockDescriptor[] = []
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r, {
+    shared: true,
+    onBlock: b => blocks.push(b),
+  })
+  const a = store.alloc('a', {}, { n: 1 })
+  const b = store.alloc('b', { next: a }, { n: 2 })
+  const c = store.alloc('c', { next: b }, { n: 3 })
+  store.free(b)
+
+  const desc = store.share()
+  t.same(desc.fields, ['next'])
+  t.same(desc.rawFields, ['n'])
+  t.equal(desc.blockSize, 4)
+  t.equal(desc.blocks.length, 1)
+
+  const attached = PointerSet.attach<string, typeof f, typeof r>(desc)
+  t.equal(attached.shared, true)
+  t.equal(attached.size(), 3)
+  t.same(attached.rawAll(c), { n: 3 })
+  t.equal(attached.ref(c, 'next'), b)
+  // values are not shared, only the slabs
+  t.equal(attached.value(a), undefined)
+  // b was freed, so it's not live in either copy
+  t.same(attached.rawAll(b), { n: 0 })
+
+  // writes are visible to both
+  attached.raw(a, 'n', 100)
+  t.equal(store.raw(a, 'n'), 100)
+
+  // allocating in the attached copy reuses the freed slot
+  const d = attached.alloc('d', {}, { n: 4 })
+  t.equal(d, b)
+  t.equal(store.size(), 4)
+  t.same(store.rawAll(d), { n: 4 })
+
+  // filling up the root block makes a new one, reported in onBlock
+  const e = store.alloc('e', {}, { n: 5 })
+  t.equal(store.blocksCount(), 2)
+  t.equal(blocks.length, 1)
+  t.equal(blocks[0].blockId, 1)
+  t.equal(attached.blocksCount(), 1)
+  const attachedBlock = attached.attachBlock(blocks[0])
+  t.equal(attached.attachBlock(blocks[0]), attachedBlock, 'no-op')
+  t.equal(attached.attachBlock(desc.blocks[0]), attached, 'no-op')
+  t.equal(attached.blocksCount(), 2)
+  t.same(attached.rawAll(e), { n: 5 })
+  t.equal(attached.size(), 5)
+
+  // root block is full in the attached copy, so goes to the new block
+  const g = attached.alloc('g')
+  t.equal(attached.getBlockId(g), 1)
+  t.equal(store.size(), 6)
+
+  // freeing in one is seen in the other
+  store.free(g)
+  t.equal(attached.size(), 5)
+  attached.erase(e)
+  t.equal(store.size(), 4)
+  t.same(store.rawAll(e), { n: 0 })
+
+  // wiping a block clears the live entries
+  store.blocks[1].wipeBlock()
+  t.equal(attached.entryCount(1), 0)
+
+  // a block that was filled up by another thread is skipped
+  const h = store.alloc('h')
+  t.equal(store.getBlockId(h), 1)
+  t.equal(attached.alloc('i'), h + 1)
+  t.equal(attached.alloc('j'), h + 2)
+  t.equal(attached.alloc('k'), h + 3)
+  t.equal(store.available(1), 0)
+  store.blocksAvail.add(store.blocks[1])
+  t.equal(store.getBlockId(store.alloc('new block')), 2)
+  t.equal(blocks.length, 2)
+})
+
+t.test('snapshot into a shared set', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(store.alloc(null, {}, { n: i }))
+  }
+  store.free(ptrs[2])
+  const blocks: SharedBlockDescriptor[] = []
+  const loaded = PointerSet.fromBuffer<null, typeof f, typeof r>(
+    store.toBuffer(),
+    undefined,
+    { shared: true, onBlock: b => blocks.push(b) }
+  )
+  t.equal(loaded.shared, true)
+  t.equal(blocks.length, 1)
+  const attached = PointerSet.attach<null, typeof f, typeof r>(
+    loaded.share()
+  )
+  t.equal(attached.size(), 6)
+  t.same(attached.rawAll(ptrs[5]), { n: 5 })
+  t.same(attached.rawAll(ptrs[2]), { n: 0 })
+  t.equal(PointerSet.fromBuffer(attached.toBuffer()).size(), 6)
+})
+
+t.test('share with a worker thread', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 256, r, {
+    shared: true,
+  })
+  const head = store.alloc(null, {}, { n: 0 })
+  let tail = head
+  for (let i = 1; i < 10; i++) {
+    tail = store.ref(tail, 'next', store.alloc(null, {}, { n: i }))
+  }
+  const desc: SharedPointerSetDescriptor = store.share()
+  const worker = new Worker(
+    `
+    const { parentPort, workerData } = require('worker_threads')
+    const { PointerSet } = require(workerData.module)
+    const store = PointerSet.attach(workerData.desc)
+    let sum = 0
+    for (let p = workerData.head; p; p = store.ref(p, 'next')) {
+      sum += store.raw(p, 'n')
+      store.raw(p, 'n', store.raw(p, 'n') * 2)
+    }
+    parentPort.postMessage(sum)
+    `,
+    {
+      eval: true,
+      workerData: { module: resolve('dist/cjs/index.js'), desc, head },
+    }
+  )
+  const sum = await new Promise(res => worker.once('message', res))
+  await new Promise(res => worker.once('exit', res))
+  t.equal(sum, 45)
+  let doubled = 0
+  for (let p = head; p; p = store.ref(p, 'next')) {
+    doubled += store.raw(p, 'n')
+  }
+  t.equal(doubled, 90)
+})
@@ -0,0 +1,95 @@
+import t from 'tap'
+import { Pointer, PointerSet } from '../'
+
+const f = ['next', 'prev'] as const
+const r = ['n', ['name', 'bytes']] as const
+
+t.test('counts and sizes', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r)
+  const empty = store.stats()
+  t.same(empty.blocks, [
+    {
+      live: 0,
+      freeList: 0,
+      nextFree: 1,
+      refBytes: 2 * 4 * 4,
+      rawBytes: 4 * 4 + 4 * 8,
+      freeListBytes: 4,
+      valueBytes: 8,
+      metaBytes: 5 * 4,
+      bytes: 32 + 48 + 4 + 8 + 20,
+      fragmentation: 0,
+    },
+  ])
+  t.equal(empty.fragmentation, 0)
+  t.equal(empty.reclaimableBlocks, 0)
+  t.equal(empty.arenaBytes, 1024)
+  t.equal(empty.bytes, 112 + 1024)
+
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 10; i++) {
+    ptrs.push(store.alloc(`v${i}`, {}, { n: i, name: `${i}${i}` }))
+  }
+  store.free(ptrs[0])
+  store.free(ptrs[4])
+  store.free(ptrs[5])
+  const stats = store.stats()
+  t.same(
+    stats.blocks.map(({ live, freeList, nextFree, fragmentation }) => ({
+      live,
+      freeList,
+      nextFree,
+      fragmentation,
+    })),
+    [
+      { live: 2, freeList: 1, nextFree: 4, fragmentation: 1 / 3 },
+      { live: 2, freeList: 2, nextFree: 4, fragmentation: 1 / 2 },
+      { live: 3, freeList: 0, nextFree: 3, fragmentation: 0 },
+    ]
+  )
+  t.equal(stats.live, 7)
+  t.equal(stats.live, store.size() - 1)
+  t.equal(stats.freeList, 3)
+  t.equal(stats.nextFree, 11)
+  t.equal(stats.fragmentation, 3 / 10)
+  t.equal(stats.refBytes, 3 * 32)
+  t.equal(stats.valueBytes, 8 * (4 + 4 + 3))
+  t.equal(
+    stats.bytes,
+    stats.blocks.reduce((n, b) => n + b.bytes, 0) + stats.arenaBytes
+  )
+  t.equal(stats.arenaGarbage, 6)
+
+  // compact frees what was reported
+  t.equal(stats.reclaimableBlocks, 1)
+  store.compact()
+  t.equal(store.blocksCount(), 2)
+  const after = store.stats()
+  t.equal(after.fragmentation, 0)
+  t.equal(after.reclaimableBlocks, 0)
+})
+
+t.test('valueless, generations, and counted sets', async t => {
+  const store = new PointerSet<null, typeof f>(f, 64, [], {
+    valueless: true,
+    generations: true,
+    counted: ['next'],
+  })
+  store.alloc(null)
+  const [stats] = store.stats().blocks
+  t.equal(stats.valueBytes, 0)
+  t.equal(stats.rawBytes, 0)
+  t.equal(stats.freeListBytes, 64)
+  t.equal(
+    stats.metaBytes,
+    5 * 4 + 64 / 8 + 64 * 4 + 64 * 4,
+    'state, live bits, generations, and counts'
+  )
+  t.equal(store.stats().arenaBytes, 0)
+  t.equal(store.stats().arenaGarbage, 0)
+
+  // blocks report the whole set
+  store.reserve(64)
+  t.equal(store.blocks[1].stats().blocks.length, 2)
+  t.equal(store.blocks[1].stats().fragmentation, 0)
+})
@@ -0,0 +1,190 @@
+import t from 'tap'
+import {
+  errPointerAsRaw,
+  errStructField,
+  errStructLength,
+  errUnknownRawField,
+  Pointer,
+  PointerSet,
+} from '../'
+
+const f = ['next'] as const
+const r = [
+  ['digest', 'uint8', 32],
+  ['vec', 'float32', 3],
+  ['key', 'uint32', 4],
+  ['one', 'int16', 1],
+  'n',
+] as const
+
+t.test('struct fields', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  t.same(store.rawWidths, [32, 3, 4, 1, 1])
+  t.same(
+    store.rawFields.map(s => s.byteLength),
+    [128, 48, 64, 8, 16]
+  )
+
+  const digest = new Uint8Array(32).map((_, i) => i * 3)
+  const a = store.alloc(null, {}, { digest, vec: [1.5, -2] })
+  const b = store.alloc(null, {}, { key: [1, 2, 3, 4], n: 9, one: -1 })
+
+  const vec: Float32Array = store.rawView(a, 'vec')
+  t.same([...vec], [1.5, -2, 0], 'missing values are zero')
+  t.same(store.rawView(a, 'digest'), digest)
+  t.not(store.rawView(a, 'digest'), digest, 'copied in')
+  t.same([...store.rawView(a, 'key')], [0, 0, 0, 0])
+  t.same([...store.rawView(b, 'key')], [1, 2, 3, 4])
+  t.same([...store.rawView(b, 'one')], [-1], 'scalar fields have views')
+  t.same([...store.rawView(b, 'n')], [9])
+
+  // views write through
+  vec[2] = 0.25
+  t.equal(store.rawView(a, 'vec')[2], 0.25)
+  t.same(store.rawView(b, 'vec'), new Float32Array(3), 'neighbor intact')
+  store.rawView(b, 'key')[3] = 40
+  t.same([...store.rawView(b, 'key')], [1, 2, 3, 40])
+
+  // writing through rawView replaces the whole struct
+  t.same([...store.rawView(b, 'key', [7, 8])], [7, 8, 0, 0])
+  t.same([...store.rawView(a, 'digest')].slice(0, 3), [0, 3, 6])
+
+  // bytes of any raw field
+  const bytes = store.rawBytes(b, 'key')
+  t.equal(bytes.length, 16)
+  t.same([...bytes.subarray(0, 5)], [7, 0, 0, 0, 8])
+  store.rawBytes(b, 'key', [1, 1])
+  t.same([...store.rawView(b, 'key')], [257, 0, 0, 0])
+  t.same([...store.rawBytes(b, 'one')], [255, 255])
+
+  // rawAll returns views, and writes like alloc
+  const all = store.rawAll(a)
+  t.type(all.digest, Uint8Array)
+  t.same(all.vec, new Float32Array([1.5, -2, 0.25]))
+  t.equal(all.n, 0)
+  ;(all.vec as Float32Array)[0] = 3
+  t.equal(store.rawView(a, 'vec')[0], 3)
+  store.rawAll(a, { vec: new Float32Array([9]), n: 2 })
+  t.same([...store.rawView(a, 'vec')], [9, 0, 0])
+  t.equal(store.raw(a, 'n'), 2)
+
+  // scalar access is not allowed on structs
+  t.throws(
+    //@ts-expect-error
+    () => store.raw(a, 'vec'),
+    errStructField('vec')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.compareExchangeRaw(a, 'key', 0, 1),
+    errStructField('key')
+  )
+  t.throws(() => store.raw32(a, 'key'), errStructField('key'))
+  t.equal(store.raw(a, 'one', 5), 5)
+
+  // too many values is an error, and does not spill into the next entry
+  t.throws(
+    () => store.rawView(a, 'key', [1, 2, 3, 4, 5]),
+    errStructLength('key', 5)
+  )
+  t.throws(
+    () => store.rawBytes(a, 'vec', new Uint8Array(13)),
+    errStructLength('vec', 13)
+  )
+  t.throws(
+    () => store.alloc(null, {}, { vec: [1, 2, 3, 4] }),
+    errStructLength('vec', 4)
+  )
+  t.throws(() => store.rawAll(a, { key: [0, 0, 0, 0, 0] }))
+  t.same([...store.rawView(b, 'key')], [257, 0, 0, 0])
+  t.throws(
+    //@ts-expect-error
+    () => store.rawView(a, 'next'),
+    errPointerAsRaw('next')
+  )
+  t.throws(
+    //@ts-expect-error
+    () => store.rawView(a, 'nope'),
+    errUnknownRawField('nope')
+  )
+
+  // erase zeroes the whole struct
+  store.erase(b)
+  t.same(store.rawFields[2].subarray(8, 12), new Uint32Array(4))
+})
+
+t.test('entries that are not live', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r)
+  const a = store.alloc(null, {}, { key: [1] })
+  store.free(a)
+  const all = store.rawAll(a)
+  t.same(all.key, new Uint32Array(4))
+  t.same(all.digest, new Uint8Array(32))
+  t.same(store.rawAll(a, { key: [2] }), { key: [2] })
+  t.throws(() => store.rawView(0 as Pointer, 'key'), {
+    message: 'cannot read from null pointer',
+  })
+})
+
+t.test('structs in blocks, snapshots, and compact', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r, {
+    shared: true,
+  })
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 8; i++) {
+    ptrs.push(store.alloc(null, {}, { key: [i, i + 1, i + 2, i + 3] }))
+  }
+  t.equal(store.blocksCount(), 3)
+  t.same([...store.rawView(ptrs[5], 'key')], [5, 6, 7, 8])
+  t.same(store.fieldLists()[1], [
+    ['digest', 'uint8', 32],
+    ['vec', 'float32', 3],
+    ['key', 'uint32', 4],
+    ['one', 'int16'],
+    'n',
+  ])
+
+  const loaded = PointerSet.fromBuffer<null, typeof f, typeof r>(
+    store.toBuffer()
+  )
+  const attached = PointerSet.attach<null, typeof f, typeof r>(
+    store.share()
+  )
+  for (const s of [loaded, attached]) {
+    t.same(s.rawWidths, store.rawWidths)
+    for (let i = 0; i < 8; i++) {
+      t.same([...s.rawView(ptrs[i], 'key')], [i, i + 1, i + 2, i + 3])
+    }
+  }
+  attached.rawView(ptrs[7], 'vec', [1, 2, 3])
+  t.same([...store.rawView(ptrs[7], 'vec')], [1, 2, 3])
+
+  store.free(ptrs[0])
+  store.free(ptrs[1])
+  const remap = store.compact()
+  const moved = remap.get(ptrs[7]) as Pointer
+  t.same([...store.rawView(moved, 'key')], [7, 8, 9, 10])
+  t.same([...store.rawView(moved, 'vec')], [1, 2, 3])
+  t.same([...store.rawView(ptrs[2], 'key')], [2, 3, 4, 5])
+})
+
+t.test('checked and generations', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r, {
+    checked: true,
+    generations: true,
+  })
+  const a = store.alloc(null, {}, { key: [1] })
+  t.equal(store.rawView(a, 'key')[0], 1)
+  store.free(a)
+  t.throws(() => store.rawView(a, 'key'))
+  t.throws(() => store.rawBytes(a, 'key'))
+})
+
+t.test('invalid widths', async t => {
+  for (const w of [0, -1, 1.5, NaN]) {
+    t.throws(
+      () => new PointerSet(f, 4, [['x', 'uint8', w]]),
+      TypeError(`invalid width for raw field x: ${w}`)
+    )
+  }
+})
@@ -0,0 +1,133 @@
+import t from 'tap'
+import { errFreedPointer, Pointer, PointerSet } from '../'
+
+const f = ['next'] as const
+const r = ['n'] as const
+
+t.test('liveness is tracked in a bit set', async t => {
+  const store = new PointerSet<null, typeof f, typeof r>(f, 4, r, {
+    valueless: true,
+  })
+  t.equal(store.valueless, true)
+  t.equal(store.shared, false)
+  t.type(store.live, Int32Array)
+  t.same(store.values, [])
+
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(store.alloc(null, { next: ptrs[i - 1] }, { n: i }))
+  }
+  t.equal(store.blocks[1].valueless, true)
+  t.type(store.blocks[1].live, Int32Array)
+  t.same(store.values, [])
+  t.same(store.blocks[1].values, [])
+  t.equal(store.value(ptrs[1]), undefined)
+  t.throws(
+    () => store.value(ptrs[1], null),
+    TypeError('PointerSet does not store values')
+  )
+  t.equal(store.size(), 7)
+  t.equal(store.entryCount(1), 3)
+
+  t.same(store.refAll(ptrs[2]), { next: ptrs[1] })
+  t.same(store.rawAll(ptrs[2]), { n: 2 })
+  store.free(ptrs[2])
+  t.same(store.refAll(ptrs[2]), { next: 0 }, 'not live')
+  t.same(store.rawAll(ptrs[2]), { n: 0 })
+  store.free(ptrs[2])
+  store.erase(ptrs[4])
+  store.erase(ptrs[4])
+  t.equal(store.size(), 5)
+  t.same(store.values, [])
+  t.same([...store.pointers()], [ptrs[0], ptrs[1], ptrs[3], ptrs[5]])
+  t.same(
+    [...store],
+    [
+      [ptrs[0], undefined],
+      [ptrs[1], undefined],
+      [ptrs[3], undefined],
+      [ptrs[5], undefined],
+    ]
+  )
+
+  // the freed slot is reused
+  t.equal(store.alloc(null), ptrs[2])
+
+  // freeing everything in a block empties it
+  store.free(ptrs[3])
+  store.free(ptrs[5])
+  t.equal(store.entryCount(1), 0)
+  store.dropEmpty()
+  t.equal(store.blocksCount(), 1)
+  store.free(ptrs[0])
+  store.free(ptrs[1])
+  store.free(ptrs[2])
+  t.same(store.values, [], 'root block stays empty')
+  t.equal(store.size(), 1)
+
+  store.alloc(null)
+  store.wipeBlock()
+  t.same(store.values, [])
+  t.same([...store.pointers()], [])
+})
+
+t.test('compact, collect, and checked', async t => {
+  const store = new PointerSet<null, typeof f>(f, 4, [], {
+    valueless: true,
+    checked: true,
+  })
+  const ptrs: Pointer[] = []
+  for (let i = 0; i < 6; i++) {
+    ptrs.push(store.alloc(null))
+  }
+  store.ref(ptrs[5], 'next', ptrs[4])
+  store.free(ptrs[0])
+  store.free(ptrs[1])
+  t.throws(() => store.ref(ptrs[0], 'next'), errFreedPointer(ptrs[0]))
+  const remap = store.compact()
+  t.same([...remap.values()].sort(), [ptrs[0], ptrs[1]].sort())
+  const moved = remap.get(ptrs[5]) as Pointer
+  t.equal(store.ref(moved, 'next'), remap.get(ptrs[4]))
+  t.same(store.values, [])
+  t.equal(store.collect([moved]), 2)
+  t.equal(store.size(), 3)
+  t.same(store.values, [])
+})
+
+t.test('snapshots and shared memory', async t => {
+  const store = new PointerSet<string, typeof f, typeof r>(f, 4, r, {
+    valueless: true,
+    shared: true,
+  })
+  const a = store.alloc('ignored', {}, { n: 1 })
+  const b = store.alloc('ignored', { next: a }, { n: 2 })
+  store.free(a)
+  t.equal(store.value(b), undefined, 'values passed to alloc are ignored')
+
+  const buf = store.toBuffer()
+  const loaded = PointerSet.fromBuffer<string, typeof f, typeof r>(buf)
+  t.equal(loaded.valueless, true)
+  t.same(loaded.values, [])
+  t.same([...loaded.pointers()], [b])
+  t.equal(loaded.raw(b, 'n'), 2)
+
+  const attached = PointerSet.attach<string, typeof f, typeof r>(
+    store.share()
+  )
+  t.equal(attached.valueless, true)
+  t.same([...attached.pointers()], [b])
+
+  const plain = new PointerSet<null, typeof f>(f)
+  t.equal(plain.valueless, false)
+  t.equal(plain.live, undefined)
+  t.throws(() => plain.share(), TypeError('PointerSet is not shared'))
+  const valueless = new PointerSet<null, typeof f>(f, 4, [], {
+    valueless: true,
+  })
+  t.throws(() => valueless.share(), TypeError('PointerSet is not shared'))
+  t.throws(
+    () => valueless.attachBlock(store.shareBlock()),
+    TypeError('PointerSet is not shared')
+  )
+  t.equal(PointerSet.fromBuffer(plain.toBuffer()).valueless, false)
+})